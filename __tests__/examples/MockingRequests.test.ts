@@ -607,9 +607,10 @@ describe('MockingRequests Example - Dynamic Response Based on Request', () => {
             // First attempt should fail with network error
             await expect(
                 client.findById<User>('users', [{ field: 'id', value: '123' }])
-            ).rejects.toEqual({
+            ).rejects.toMatchObject({
+                name: 'HosbyNetworkError',
                 success: false,
-                status: 500,
+                status: 0,
                 message: 'Network failure'
             });
 
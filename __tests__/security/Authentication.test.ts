@@ -13,7 +13,7 @@ jest.mock('jsencrypt', () => {
 global.window = {} as any;
 
 import { BaseClient, SecureClientConfig } from '../../src/clients/BaseClient';
-import { HosbyClient } from '../../src';
+import { HosbyClient, HosbyHttpError } from '../../src';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -137,7 +137,9 @@ describe('Authentication Security Tests', () => {
                 projectName: 'testproject'
             });
 
-            await expect(client.init()).rejects.toThrow('Failed to fetch CSRF token');
+            const init = client.init();
+            await expect(init).rejects.toThrow('Failed to fetch CSRF token');
+            await expect(init).rejects.toBeInstanceOf(HosbyHttpError);
         });
     });
 
@@ -265,17 +267,23 @@ describe('Authentication Security Tests', () => {
         });
 
         test('should warn about insecure connection in warn mode', () => {
-            expect(() => {
-                new HosbyClient({
-                    baseURL: 'http://api.hosby.com', // HTTP not HTTPS
-                    privateKey: 'test-private-key',
-                    projectId: 'test-project-id',
-                    userId: 'test-user-id',
-                    apiKeyId: 'test-api-key-id',
-                    projectName: 'test-project',
-                    httpsMode: 'warn'
-                });
-            }).toThrow(/Using insecure HTTP connection/);
+            const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+            const client = new HosbyClient({
+                baseURL: 'http://api.hosby.com', // HTTP not HTTPS
+                privateKey: 'test-private-key',
+                projectId: 'test-project-id',
+                userId: 'test-user-id',
+                apiKeyId: 'test-api-key-id',
+                projectName: 'test-project',
+                httpsMode: 'warn',
+                logger
+            });
+
+            expect(client).toBeInstanceOf(HosbyClient);
+            expect(logger.warn).toHaveBeenCalledWith(
+                expect.stringMatching(/Using insecure HTTP connection/),
+                { baseURL: 'http://api.hosby.com' }
+            );
         });
         test('should allow HTTP in none mode', () => {
             const client = new HosbyClient({
@@ -335,11 +343,7 @@ describe('Authentication Security Tests', () => {
                 },
                 writable: true
             });
-            
-            // Mock setCookie method on the BaseClient prototype
-            jest.spyOn(BaseClient.prototype as any, 'setCookie').mockImplementation(() => {
-                // Do nothing to avoid the "not in browser environment" error
-            });
+
 
             await client.init();
 
@@ -0,0 +1,267 @@
+// Mock JSEncrypt and window before importing anything
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature')
+        }))
+    };
+});
+
+// Mock window object
+global.window = {} as any;
+
+import { CacheEntry, CacheStorage, HosbyClient, ResponseCache, createMemoryCacheStorage } from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject'
+};
+
+const jsonResponse = (status: number, body: unknown) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: () => null },
+    json: async () => body
+});
+
+const okBody = (data: unknown) => ({ success: true, status: 200, message: 'OK', data });
+
+describe('Response cache', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.useRealTimers();
+        (global.fetch as jest.Mock).mockReset();
+        (global.fetch as jest.Mock).mockImplementation(async () => jsonResponse(200, okBody([{ id: '1' }])));
+    });
+
+    test('should not cache reads by default', async () => {
+        const client = new HosbyClient(config);
+
+        await client.find('users');
+        await client.find('users');
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should serve repeated reads from the cache', async () => {
+        const client = new HosbyClient({ ...config, cache: true });
+
+        const first = await client.find('users', [{ field: 'role', value: 'admin' }], { limit: 10 });
+        const second = await client.find('users', [{ field: 'role', value: 'admin' }], { limit: 10 });
+
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+        expect(second).toEqual(first);
+    });
+
+    test('should key entries by endpoint, filters and query options', async () => {
+        const client = new HosbyClient({ ...config, cache: true });
+
+        await client.find('users');
+        await client.count('users');
+        await client.find('users', [{ field: 'role', value: 'admin' }]);
+        await client.find('users', [], { limit: 10 });
+        await client.find('posts');
+
+        expect(global.fetch).toHaveBeenCalledTimes(5);
+    });
+
+    test('should key entries by custom headers', async () => {
+        (global.fetch as jest.Mock).mockImplementation(async (_url: string, init: RequestInit) =>
+            jsonResponse(200, okBody([{ tenant: new Headers(init.headers).get('x-tenant') }])));
+        const client = new HosbyClient({ ...config, cache: true, headers: { 'x-tenant': 'acme' } });
+
+        const acme = await client.find('users');
+        const globex = await client.find('users', [], {}, { headers: { 'X-Tenant': 'globex' } });
+        const cachedGlobex = await client.find('users', [], {}, { headers: { 'x-tenant': 'globex' } });
+
+        expect(acme.data).toEqual([{ tenant: 'acme' }]);
+        expect(globex.data).toEqual([{ tenant: 'globex' }]);
+        expect(cachedGlobex).toEqual(globex);
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should expire entries after the TTL', async () => {
+        jest.useFakeTimers({ now: 0 });
+        const client = new HosbyClient({ ...config, cache: { ttl: 1000 } });
+
+        await client.find('users');
+        jest.setSystemTime(999);
+        await client.find('users');
+        jest.setSystemTime(1000);
+        await client.find('users');
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should invalidate the table after a successful write', async () => {
+        const client = new HosbyClient({ ...config, cache: true });
+
+        await client.find('users');
+        await client.find('posts');
+        await client.insertOne('users', { name: 'Jane' });
+        await client.find('users');
+        await client.find('posts');
+
+        expect((global.fetch as jest.Mock).mock.calls.map(([url]) => url)).toEqual([
+            'https://api.hosby.com/testproject/users/find/',
+            'https://api.hosby.com/testproject/posts/find/',
+            'https://api.hosby.com/testproject/users/insertOne/',
+            'https://api.hosby.com/testproject/users/find/'
+        ]);
+    });
+
+    test.each([
+        ['updateOne', (client: HosbyClient) => client.updateOne('users', { name: 'Jane' }, [{ field: 'id', value: '1' }])],
+        ['replaceOne', (client: HosbyClient) => client.replaceOne('users', { name: 'Jane' }, [{ field: 'id', value: '1' }])],
+        ['deleteOne', (client: HosbyClient) => client.deleteOne('users', [{ field: 'id', value: '1' }])],
+        ['bulkInsert', (client: HosbyClient) => client.bulkInsert('users', [{ name: 'Jane' }])]
+    ])('should invalidate the table after %s', async (_name, write) => {
+        const client = new HosbyClient({ ...config, cache: true });
+
+        await client.count('users');
+        await write(client);
+        await client.count('users');
+
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    test('should keep cached entries when a write fails', async () => {
+        const client = new HosbyClient({ ...config, cache: true });
+
+        await client.find('users');
+        (global.fetch as jest.Mock).mockResolvedValueOnce(
+            jsonResponse(409, { success: false, status: 409, message: 'Conflict' })
+        );
+        await expect(client.insertOne('users', { name: 'Jane' })).rejects.toMatchObject({ status: 409 });
+        await client.find('users');
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not store a read that was in flight during an invalidation', async () => {
+        const client = new HosbyClient({ ...config, cache: true });
+        let resolveRead: (value: unknown) => void = () => undefined;
+        (global.fetch as jest.Mock).mockImplementationOnce(() => new Promise(resolve => {
+            resolveRead = resolve;
+        }));
+
+        const staleRead = client.find('users');
+        await Promise.resolve();
+        await client.invalidate('users');
+        resolveRead(jsonResponse(200, okBody(['stale'])));
+        await staleRead;
+        await client.find('users');
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should support manual invalidation and clearing', async () => {
+        const client = new HosbyClient({ ...config, cache: true });
+
+        await client.find('users');
+        await client.find('posts');
+        await client.invalidate('users');
+        await client.find('users');
+        await client.find('posts');
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+
+        await client.clear();
+        await client.find('users');
+        await client.find('posts');
+        expect(global.fetch).toHaveBeenCalledTimes(5);
+    });
+
+    test('should bypass the cache per call', async () => {
+        const client = new HosbyClient({ ...config, cache: true });
+
+        await client.find('users');
+        await client.find('users', [], {}, { cache: false });
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should return cached results in result mode', async () => {
+        const client = new HosbyClient({ ...config, cache: true, errorMode: 'result' });
+
+        await client.find('users');
+        const result = await client.find<{ id: string }[]>('users');
+
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+        expect(result).toEqual({ ok: true, data: [{ id: '1' }], response: okBody([{ id: '1' }]) });
+    });
+
+    test('should drop cached entries when the session token changes', async () => {
+        const client = new HosbyClient({ ...config, cache: true });
+        const login = (token: string) => ({
+            ...jsonResponse(200, okBody({})),
+            headers: { get: (name: string) => name === 'Authorization' ? `Bearer ${token}` : null }
+        });
+
+        await client.findById('users', [{ field: 'id', value: '1' }]);
+        (global.fetch as jest.Mock).mockImplementationOnce(async () => login('first-user-token'));
+        await client.login('email', 'users', { email: 'first@hosby.io' });
+        await client.findById('users', [{ field: 'id', value: '1' }]);
+        await client.findById('users', [{ field: 'id', value: '1' }]);
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+
+        (global.fetch as jest.Mock).mockImplementationOnce(async () => login('second-user-token'));
+        await client.login('email', 'users', { email: 'second@hosby.io' });
+        await client.findById('users', [{ field: 'id', value: '1' }]);
+        expect(global.fetch).toHaveBeenCalledTimes(5);
+    });
+
+    test('should bound the in-memory storage', async () => {
+        jest.useFakeTimers({ now: 0 });
+        const storage = createMemoryCacheStorage({ maxEntries: 2 });
+        const entry = (expiresAt: number): CacheEntry => ({ value: okBody([]), expiresAt });
+
+        await storage.set('a', entry(1000));
+        await storage.set('b', entry(1000));
+        await storage.get('a');
+        await storage.set('c', entry(1000));
+        expect(Array.from(await storage.keys())).toEqual(['a', 'c']);
+
+        jest.advanceTimersByTime(1000);
+        await storage.set('d', entry(5000));
+        expect(Array.from(await storage.keys())).toEqual(['d']);
+    });
+
+    test('should use a custom storage backend', async () => {
+        const entries = new Map<string, CacheEntry>();
+        const storage: CacheStorage = {
+            get: async (key) => entries.get(key),
+            set: async (key, entry) => {
+                entries.set(key, entry);
+            },
+            delete: async (key) => {
+                entries.delete(key);
+            },
+            keys: async () => entries.keys()
+        };
+        const client = new HosbyClient({ ...config, cache: { storage } });
+
+        await client.findById('users', [{ field: 'id', value: '1' }]);
+        await client.findById('users', [{ field: 'id', value: '1' }]);
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+        expect(entries.size).toBe(1);
+
+        await client.deleteById('users', [{ field: 'id', value: '1' }]);
+        expect(entries.size).toBe(0);
+    });
+
+    test('should validate the cache options', () => {
+        expect(() => new ResponseCache({ ttl: 0 })).toThrow('Cache ttl must be a positive number of milliseconds');
+        expect(() => new ResponseCache({ storage: {} as CacheStorage }))
+            .toThrow('Cache storage must implement get, set, delete and keys methods');
+        expect(() => new ResponseCache({ maxEntries: 0 })).toThrow('Cache maxEntries must be a positive integer');
+    });
+});
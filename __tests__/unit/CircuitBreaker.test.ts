@@ -0,0 +1,209 @@
+// Mock JSEncrypt and window before importing anything
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature')
+        }))
+    };
+});
+
+// Mock window object
+global.window = {} as any;
+
+import { CircuitBreaker, CircuitChange, HosbyCircuitOpenError, HosbyClient, HosbyHttpError } from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject'
+};
+
+const jsonResponse = (status: number, body: unknown) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: () => null },
+    json: async () => body
+});
+
+const ok = () => jsonResponse(200, { success: true, status: 200, message: 'OK', data: [] });
+const unavailable = () => jsonResponse(503, { success: false, status: 503, message: 'Unavailable' });
+
+describe('Circuit breaker', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.useFakeTimers({ now: 0 });
+        (global.fetch as jest.Mock).mockReset();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test('should be disabled by default', async () => {
+        (global.fetch as jest.Mock).mockImplementation(async () => unavailable());
+        const client = new HosbyClient(config);
+
+        for (let i = 0; i < 10; i++) {
+            await expect(client.count('users')).rejects.toBeInstanceOf(HosbyHttpError);
+        }
+
+        expect(global.fetch).toHaveBeenCalledTimes(10);
+        expect(client.getCircuitState()).toBe('closed');
+    });
+
+    test('should open after consecutive failures and fail fast', async () => {
+        (global.fetch as jest.Mock).mockImplementation(async () => unavailable());
+        const client = new HosbyClient({ ...config, circuitBreaker: { failureThreshold: 3, cooldown: 1000 } });
+
+        for (let i = 0; i < 3; i++) {
+            await expect(client.count('users')).rejects.toBeInstanceOf(HosbyHttpError);
+        }
+        expect(client.getCircuitState()).toBe('open');
+
+        const error = await client.count('users').catch(e => e);
+        expect(error).toBeInstanceOf(HosbyCircuitOpenError);
+        expect(error).toMatchObject({ status: 503, retryAfter: 1000, method: 'GET', path: 'users/count' });
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    test('should reset the failure count on success', async () => {
+        (global.fetch as jest.Mock)
+            .mockResolvedValueOnce(unavailable())
+            .mockResolvedValueOnce(unavailable())
+            .mockResolvedValueOnce(ok())
+            .mockResolvedValueOnce(unavailable())
+            .mockResolvedValueOnce(unavailable());
+        const client = new HosbyClient({ ...config, circuitBreaker: { failureThreshold: 3 } });
+
+        for (let i = 0; i < 5; i++) {
+            await client.count('users').catch(() => undefined);
+        }
+
+        expect(client.getCircuitState()).toBe('closed');
+    });
+
+    test('should not count client errors as failures', async () => {
+        (global.fetch as jest.Mock).mockImplementation(async () =>
+            jsonResponse(404, { success: false, status: 404, message: 'Not found' })
+        );
+        const client = new HosbyClient({ ...config, circuitBreaker: { failureThreshold: 2 } });
+
+        for (let i = 0; i < 3; i++) {
+            await client.count('users').catch(() => undefined);
+        }
+
+        expect(client.getCircuitState()).toBe('closed');
+    });
+
+    test('should not count client-side failures such as a throwing middleware', async () => {
+        (global.fetch as jest.Mock).mockImplementation(async () => ok());
+        const client = new HosbyClient({ ...config, circuitBreaker: { failureThreshold: 2 } });
+        client.use(() => {
+            throw new Error('Middleware failed');
+        });
+
+        for (let i = 0; i < 3; i++) {
+            await expect(client.count('users')).rejects.toThrow('Middleware failed');
+        }
+
+        expect(client.getCircuitState()).toBe('closed');
+        expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    test('should release the trial request without closing on a client-side failure', () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000 });
+        breaker.record(new HosbyHttpError('Unavailable', { status: 503 }));
+        jest.advanceTimersByTime(1000);
+
+        breaker.record(new Error('Signature error'), breaker.acquire());
+
+        expect(breaker.state).toBe('half-open');
+        expect(breaker.acquire()).toBe(true);
+    });
+
+    test('should close after a successful trial request once the cooldown elapsed', async () => {
+        (global.fetch as jest.Mock).mockImplementation(async () => unavailable());
+        const client = new HosbyClient({ ...config, circuitBreaker: { failureThreshold: 1, cooldown: 1000 } });
+        const changes: CircuitChange[] = [];
+        client.on('circuit:change', change => changes.push(change));
+
+        await client.count('users').catch(() => undefined);
+        jest.setSystemTime(1000);
+        (global.fetch as jest.Mock).mockImplementation(async () => ok());
+        await client.count('users');
+
+        expect(client.getCircuitState()).toBe('closed');
+        expect(changes).toEqual([
+            { state: 'open', previous: 'closed' },
+            { state: 'half-open', previous: 'open' },
+            { state: 'closed', previous: 'half-open' }
+        ]);
+    });
+
+    test('should reopen when the trial request fails', async () => {
+        (global.fetch as jest.Mock).mockImplementation(async () => unavailable());
+        const client = new HosbyClient({ ...config, circuitBreaker: { failureThreshold: 1, cooldown: 1000 } });
+
+        await client.count('users').catch(() => undefined);
+        jest.setSystemTime(1500);
+        await expect(client.count('users')).rejects.toBeInstanceOf(HosbyHttpError);
+
+        expect(client.getCircuitState()).toBe('open');
+        await expect(client.count('users')).rejects.toMatchObject({ retryAfter: 1000 });
+    });
+
+    test('should let a single trial request through while half-open', async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 0 });
+        breaker.record(new HosbyHttpError('Unavailable', { status: 503 }));
+
+        const probe = breaker.acquire();
+        expect(probe).toBe(true);
+        expect(breaker.state).toBe('half-open');
+        expect(() => breaker.acquire()).toThrow(HosbyCircuitOpenError);
+
+        breaker.record(undefined, probe);
+        expect(breaker.state).toBe('closed');
+        expect(breaker.acquire()).toBe(false);
+    });
+
+    test('should stop retrying once the circuit opens', async () => {
+        jest.useRealTimers();
+        (global.fetch as jest.Mock).mockImplementation(async () => unavailable());
+        const client = new HosbyClient({
+            ...config,
+            retryAttempts: 5,
+            retryDelay: 0,
+            circuitBreaker: { failureThreshold: 2 }
+        });
+
+        await expect(client.count('users')).rejects.toBeInstanceOf(HosbyCircuitOpenError);
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should resolve circuit errors as failed results in result mode', async () => {
+        (global.fetch as jest.Mock).mockImplementation(async () => unavailable());
+        const client = new HosbyClient({ ...config, errorMode: 'result', circuitBreaker: { failureThreshold: 1 } });
+
+        await client.count('users');
+        const result = await client.count('users');
+
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+            expect(result.error).toBeInstanceOf(HosbyCircuitOpenError);
+        }
+    });
+
+    test('should validate the circuit breaker options', () => {
+        expect(() => new CircuitBreaker({ failureThreshold: 0 })).toThrow('Circuit breaker thresholds must be positive integers');
+        expect(() => new CircuitBreaker({ cooldown: -1 }))
+            .toThrow('Circuit breaker cooldown must be a non-negative number of milliseconds');
+    });
+});
@@ -0,0 +1,298 @@
+// Mock JSEncrypt and window before importing anything
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature')
+        }))
+    };
+});
+
+// Mock window object
+global.window = {} as any;
+
+import {
+    CsrfStore,
+    HosbyAuthError,
+    HosbyClient,
+    HosbyHttpError,
+    createBrowserCookieCsrfStore,
+    createCookieJarCsrfStore,
+    createMemoryCsrfStore,
+    createTestTransport
+} from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+import { getSetCookieHeaders, isCsrfRejectionError } from '../../src/csrf';
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject'
+};
+
+/**
+ * Server returning a CSRF token with a session cookie, and an empty list for other requests
+ */
+const createServer = () => createTestTransport(request => request.url.pathname === '/api/secure/csrf-token/'
+    ? {
+        headers: { 'Set-Cookie': 'session=abc123; Path=/; Secure; HttpOnly, theme=dark; Path=/testproject; Expires=Wed, 21 Oct 2099 07:28:00 GMT' },
+        body: { success: true, status: 200, message: 'OK', data: { token: 'csrf-token' } }
+    }
+    : { body: { success: true, status: 200, message: 'OK', data: [] } });
+
+/**
+ * Server accepting only the last CSRF token it issued
+ */
+const createExpiringServer = () => createTestTransport(request => {
+    if (request.url.pathname === '/api/secure/csrf-token/') {
+        return { body: { success: true, status: 200, message: 'OK', data: { token: 'fresh-token' } } };
+    }
+    return request.headers['X-CSRF-Token-Hosby'] === 'fresh-token'
+        ? { body: { success: true, status: 200, message: 'OK', data: [] } }
+        : { status: 403, body: { success: false, status: 403, message: 'Invalid CSRF token', code: 'INVALID_CSRF_TOKEN' } };
+});
+
+const createExpiredStore = () => {
+    const store = createMemoryCsrfStore();
+    store.setToken('expired-token');
+    return store;
+};
+
+describe('createMemoryCsrfStore', () => {
+    test('should keep the token in memory', () => {
+        const store = createMemoryCsrfStore();
+
+        store.setToken('token');
+        expect(store.getToken()).toBe('token');
+        store.clearToken();
+        expect(store.getToken()).toBeUndefined();
+    });
+});
+
+describe('createBrowserCookieCsrfStore', () => {
+    const originalDocument = global.document;
+
+    beforeEach(() => {
+        global.document = { cookie: '' } as any;
+    });
+
+    afterAll(() => {
+        global.document = originalDocument;
+    });
+
+    test('should keep the token in a cookie of the page', () => {
+        const store = createBrowserCookieCsrfStore({ cookieName: 'csrf', days: 1 });
+
+        store.setToken('token');
+
+        expect(document.cookie).toMatch(/^csrf=token;expires=.+ GMT;path=\/;SameSite=Strict$/);
+        document.cookie = `other=value; ${document.cookie}`;
+        expect(store.getToken()).toBe('token');
+        store.clearToken();
+        expect(document.cookie).toBe('csrf=;expires=Thu, 01 Jan 1970 00:00:00 GMT;path=/;SameSite=Strict');
+        expect(store.getToken()).toBeUndefined();
+    });
+
+    test('should fail outside browsers', () => {
+        const store = createBrowserCookieCsrfStore();
+        delete (global as any).document;
+
+        expect(() => store.getToken()).toThrow('Cannot access cookie hosbyapiservices-X-CSRF-Token: document.cookie is only available in browsers');
+    });
+});
+
+describe('createCookieJarCsrfStore', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should replay cookies matching the domain, path and protocol of the request', async () => {
+        const store = createCookieJarCsrfStore();
+
+        await store.setCookies!('https://api.hosby.com/project/users/find/', [
+            'session=abc; Secure; HttpOnly',
+            'scope=project; Path=/project',
+            'shared=yes; Domain=.hosby.com; Path=/',
+            'foreign=no; Domain=example.com',
+            'invalid'
+        ]);
+
+        expect(await store.getCookieHeader!('https://api.hosby.com/project/users/find/')).toBe('session=abc; scope=project; shared=yes');
+        expect(await store.getCookieHeader!('https://api.hosby.com/project/users/')).toBe('scope=project; shared=yes');
+        expect(await store.getCookieHeader!('https://api.hosby.com/projects/')).toBe('shared=yes');
+        expect(await store.getCookieHeader!('http://api.hosby.com/project/')).toBe('scope=project; shared=yes');
+        expect(await store.getCookieHeader!('https://cdn.hosby.com/')).toBe('shared=yes');
+        expect(await store.getCookieHeader!('https://example.com/')).toBeUndefined();
+    });
+
+    test('should expire and delete cookies', async () => {
+        const now = jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2030-01-01T00:00:00Z'));
+        const store = createCookieJarCsrfStore();
+
+        await store.setCookies!('https://api.hosby.com/', [
+            'short=1; Max-Age=60; Expires=Wed, 21 Oct 2099 07:28:00 GMT',
+            'long=1; Expires=Wed, 21 Oct 2099 07:28:00 GMT',
+            'removed=1'
+        ]);
+        await store.setCookies!('https://api.hosby.com/', ['removed=; Max-Age=0']);
+        expect(await store.getCookieHeader!('https://api.hosby.com/')).toBe('short=1; long=1');
+
+        now.mockReturnValue(Date.parse('2030-01-01T00:01:00Z'));
+        expect(await store.getCookieHeader!('https://api.hosby.com/')).toBe('long=1');
+    });
+
+    test('should send the token as the CSRF cookie unless the server set it', async () => {
+        const store = createCookieJarCsrfStore({ cookieName: 'csrf' });
+
+        await store.setToken('token');
+        expect(await store.getToken()).toBe('token');
+        expect(await store.getCookieHeader!('https://api.hosby.com/')).toBe('csrf=token');
+
+        await store.setCookies!('https://api.hosby.com/', ['csrf=server-token']);
+        expect(await store.getCookieHeader!('https://api.hosby.com/')).toBe('csrf=server-token');
+    });
+});
+
+describe('getSetCookieHeaders', () => {
+    test('should split folded headers without breaking expiration dates', () => {
+        const headers = new Map([['set-cookie', 'a=1; Expires=Wed, 21 Oct 2099 07:28:00 GMT, b=2; Path=/']]);
+
+        expect(getSetCookieHeaders({ get: (name: string) => headers.get(name) ?? null }))
+            .toEqual(['a=1; Expires=Wed, 21 Oct 2099 07:28:00 GMT', 'b=2; Path=/']);
+        expect(getSetCookieHeaders({ get: () => null })).toEqual([]);
+        expect(getSetCookieHeaders({ get: () => 'a=1, b=2', getSetCookie: () => ['a=1, b=2'] })).toEqual(['a=1, b=2']);
+    });
+});
+
+describe('Client CSRF store', () => {
+    const originalDocument = global.document;
+
+    afterEach(() => {
+        global.document = originalDocument;
+    });
+
+    test('should handle CSRF like a browser outside browsers', async () => {
+        delete (global as any).document;
+        const transport = createServer();
+        const client = new HosbyClient({ ...config, transport });
+
+        await client.init();
+        await client.find('users');
+
+        const { headers } = transport.requests[1];
+        expect(headers['X-CSRF-Token-Hosby']).toBe('csrf-token');
+        expect(headers['Cookie']).toBe('theme=dark; session=abc123; hosbyapiservices-X-CSRF-Token=csrf-token');
+    });
+
+    test('should reuse the stored token outside browsers', async () => {
+        delete (global as any).document;
+        const transport = createServer();
+        const csrfStore = createMemoryCsrfStore();
+        csrfStore.setToken('stored-token');
+        const client = new HosbyClient({ ...config, transport, csrfStore });
+
+        await client.init();
+        await client.find('users');
+
+        expect(transport.requests).toHaveLength(1);
+        expect(transport.requests[0].headers['X-CSRF-Token-Hosby']).toBe('stored-token');
+        expect(transport.requests[0].headers['Cookie']).toBeUndefined();
+    });
+
+    test('should read the token from a custom store before each request and merge custom cookies', async () => {
+        const transport = createServer();
+        const tokens = ['first-token', 'second-token'];
+        const csrfStore: CsrfStore = {
+            getToken: async () => tokens[0],
+            setToken: jest.fn(),
+            clearToken: jest.fn(),
+            getCookieHeader: () => 'session=abc'
+        };
+        const client = new HosbyClient({ ...config, transport, csrfStore, headers: { cookie: 'locale=fr' } });
+
+        await client.find('users');
+        tokens.shift();
+        await client.find('users');
+
+        expect(transport.requests.map(request => request.headers['X-CSRF-Token-Hosby'])).toEqual(['first-token', 'second-token']);
+        expect(transport.requests[0].headers['cookie']).toBe('locale=fr; session=abc');
+    });
+
+    test('should store fetched tokens in the browser cookie named by the config', async () => {
+        global.document = { cookie: '' } as any;
+        const transport = createServer();
+        const client = new HosbyClient({ ...config, transport, csrfCookieName: 'csrf' });
+
+        await client.init();
+
+        expect(document.cookie).toMatch(/^csrf=csrf-token;/);
+        expect(transport.requests[0].headers['Cookie']).toBeUndefined();
+    });
+});
+
+describe('isCsrfRejectionError', () => {
+    test('should detect CSRF rejections by status, code and message', () => {
+        expect(isCsrfRejectionError(new HosbyAuthError('Forbidden', { status: 403, payload: { code: 'EBADCSRFTOKEN' } }))).toBe(true);
+        expect(isCsrfRejectionError(new HosbyAuthError('CSRF token mismatch', { status: 403 }))).toBe(true);
+        expect(isCsrfRejectionError(new HosbyHttpError('Page expired', { status: 419 }))).toBe(true);
+        expect(isCsrfRejectionError(new HosbyAuthError('Forbidden', { status: 403 }))).toBe(false);
+        expect(isCsrfRejectionError(new HosbyHttpError('CSRF token mismatch', { status: 400 }))).toBe(false);
+    });
+});
+
+describe('CSRF token refresh', () => {
+    test('should fetch a new token and retry a rejected request', async () => {
+        const transport = createExpiringServer();
+        const client = new HosbyClient({ ...config, transport, csrfStore: createExpiredStore() });
+        const listener = jest.fn();
+        client.on('csrf:refreshed', listener);
+
+        await expect(client.find('users')).resolves.toMatchObject({ success: true });
+
+        expect(transport.requests.map(request => [request.url.pathname, request.headers['X-CSRF-Token-Hosby']])).toEqual([
+            ['/testproject/users/find/', 'expired-token'],
+            ['/api/secure/csrf-token/', undefined],
+            ['/testproject/users/find/', 'fresh-token']
+        ]);
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith({ method: 'GET', path: 'users/find' });
+    });
+
+    test('should share a single refresh between concurrent requests', async () => {
+        const transport = createExpiringServer();
+        const client = new HosbyClient({ ...config, transport, csrfStore: createExpiredStore() });
+        const listener = jest.fn();
+        client.on('csrf:refreshed', listener);
+
+        await Promise.all([client.find('users'), client.find('posts'), client.count('users')]);
+
+        expect(transport.requests.filter(request => request.url.pathname === '/api/secure/csrf-token/')).toHaveLength(1);
+        expect(transport.requests).toHaveLength(7);
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    test('should refresh the token only once per request', async () => {
+        const transport = createTestTransport(request => request.url.pathname === '/api/secure/csrf-token/'
+            ? { body: { success: true, status: 200, message: 'OK', data: { token: 'fresh-token' } } }
+            : { status: 403, body: { success: false, status: 403, message: 'Invalid CSRF token' } });
+        const client = new HosbyClient({ ...config, transport, csrfStore: createExpiredStore() });
+
+        await expect(client.find('users')).rejects.toBeInstanceOf(HosbyAuthError);
+
+        expect(transport.requests.map(request => request.url.pathname))
+            .toEqual(['/testproject/users/find/', '/api/secure/csrf-token/', '/testproject/users/find/']);
+    });
+
+    test('should not refresh the token of other forbidden requests', async () => {
+        const transport = createTestTransport(() => ({ status: 403, body: { success: false, status: 403, message: 'Forbidden' } }));
+        const client = new HosbyClient({ ...config, transport, csrfStore: createExpiredStore() });
+
+        await expect(client.find('users')).rejects.toThrow('Forbidden');
+
+        expect(transport.requests).toHaveLength(1);
+    });
+});
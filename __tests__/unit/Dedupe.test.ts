@@ -0,0 +1,147 @@
+// Mock JSEncrypt and window before importing anything
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature')
+        }))
+    };
+});
+
+// Mock window object
+global.window = {} as any;
+
+import { HosbyClient } from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject'
+};
+
+const jsonResponse = (status: number, body: unknown) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: () => null },
+    json: async () => body
+});
+
+const okBody = { success: true, status: 200, message: 'OK', data: [{ id: '1' }] };
+
+describe('In-flight GET deduplication', () => {
+    let client: HosbyClient;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (global.fetch as jest.Mock).mockReset();
+        (global.fetch as jest.Mock).mockImplementation(async () => jsonResponse(200, okBody));
+        client = new HosbyClient(config);
+    });
+
+    test('should share a single request between identical concurrent GETs', async () => {
+        const filters = [{ field: 'role', value: 'admin' }];
+        const options = { limit: 10, populate: ['profile'] };
+
+        const [first, second] = await Promise.all([
+            client.find('users', filters, options),
+            client.find('users', filters, options)
+        ]);
+
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+        expect(first).toBe(second);
+        expect(first).toEqual(okBody);
+    });
+
+    test('should send separate requests when the URL or query options differ', async () => {
+        await Promise.all([
+            client.find('users', [{ field: 'role', value: 'admin' }]),
+            client.find('users', [{ field: 'role', value: 'user' }]),
+            client.find('users', [], { limit: 10 }),
+            client.find('users', [], { limit: 10, skip: 10 }),
+            client.find('users', [], { query: { age: { $gt: 18 } } }),
+            client.find('users', [], { slice: [0, 5] }),
+            client.count('users')
+        ]);
+
+        expect(global.fetch).toHaveBeenCalledTimes(7);
+    });
+
+    test('should send a new request once the previous one settled', async () => {
+        await client.count('users');
+        await client.count('users');
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should share failures between identical concurrent GETs', async () => {
+        (global.fetch as jest.Mock).mockImplementation(async () =>
+            jsonResponse(500, { success: false, status: 500, message: 'Internal error' })
+        );
+
+        const results = await Promise.allSettled([client.find('users'), client.find('users')]);
+
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+        expect(results.map(r => r.status)).toEqual(['rejected', 'rejected']);
+
+        await expect(client.find('users')).rejects.toMatchObject({ status: 500 });
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not deduplicate when opted out per call', async () => {
+        await Promise.all([
+            client.find('users', [], {}, { dedupe: false }),
+            client.find('users')
+        ]);
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not deduplicate calls carrying their own signal', async () => {
+        await Promise.all([
+            client.find('users', [], {}, { signal: AbortSignal.timeout(1000) }),
+            client.find('users', [], {}, { signal: AbortSignal.timeout(1000) })
+        ]);
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should only share requests between calls with the same execution options', async () => {
+        await Promise.all([
+            client.find('users'),
+            client.find('users', [], {}, { timeout: 100 }),
+            client.find('users', [], {}, { timeout: 100 }),
+            client.find('users', [], {}, { retryAttempts: 0 }),
+            client.find('users', [], {}, { priority: 1 }),
+            client.find('users', [], {}, { errorMode: 'result' })
+        ]);
+
+        expect(global.fetch).toHaveBeenCalledTimes(5);
+    });
+
+    test('should apply the timeout of a call to its own wait', async () => {
+        (global.fetch as jest.Mock).mockImplementation(() =>
+            new Promise(resolve => setTimeout(() => resolve(jsonResponse(200, okBody)), 300)));
+
+        const slow = client.find('users');
+        const bounded = client.find('users', [], {}, { timeout: 50, retryAttempts: 0 });
+
+        await expect(bounded).rejects.toMatchObject({ name: 'HosbyTimeoutError' });
+        await expect(slow).resolves.toEqual(okBody);
+    });
+
+    test('should not deduplicate write requests', async () => {
+        await Promise.all([
+            client.deleteOne('users', [{ field: 'id', value: '1' }]),
+            client.deleteOne('users', [{ field: 'id', value: '1' }])
+        ]);
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+});
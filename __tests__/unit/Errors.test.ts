@@ -0,0 +1,139 @@
+// Mock JSEncrypt and window before importing anything
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature')
+        }))
+    };
+});
+
+// Mock window object
+global.window = {} as any;
+
+import {
+    HosbyAuthError,
+    HosbyClient,
+    HosbyConflictError,
+    HosbyError,
+    HosbyHttpError,
+    HosbyNetworkError,
+    HosbyRateLimitError,
+    HosbyTimeoutError,
+    HosbyValidationError
+} from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject'
+};
+
+const errorResponse = (status: number, body: unknown, headers: Record<string, string> = {}) => ({
+    ok: false,
+    status,
+    statusText: 'Error',
+    headers: new Headers(headers),
+    json: async () => body
+});
+
+describe('Error hierarchy', () => {
+    let client: HosbyClient;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (global.fetch as jest.Mock).mockReset();
+        client = new HosbyClient(config);
+    });
+
+    test.each([
+        [400, HosbyValidationError],
+        [401, HosbyAuthError],
+        [403, HosbyAuthError],
+        [404, HosbyHttpError],
+        [409, HosbyConflictError],
+        [422, HosbyValidationError],
+        [429, HosbyRateLimitError],
+        [500, HosbyHttpError]
+    ])('should map status %i to %p', async (status, ErrorClass) => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce(
+            errorResponse(status, { success: false, status, message: `Failure ${status}` })
+        );
+
+        const error = await client.find('users').catch(e => e);
+
+        expect(error).toBeInstanceOf(ErrorClass);
+        expect(error).toBeInstanceOf(HosbyError);
+        expect(error).toBeInstanceOf(Error);
+        expect(error.status).toBe(status);
+        expect(error.message).toBe(`Failure ${status}`);
+        expect(error.stack).toBeDefined();
+    });
+
+    test('should carry request details and the server payload', async () => {
+        const payload = { success: false, status: 409, message: 'Email already used', data: { field: 'email' } };
+        (global.fetch as jest.Mock).mockResolvedValueOnce(
+            errorResponse(409, payload, { 'x-request-id': 'req-123' })
+        );
+
+        const error = await client.insertOne('users', { email: 'a@b.c' }).catch(e => e);
+
+        expect(error).toBeInstanceOf(HosbyConflictError);
+        expect(error).toMatchObject({
+            name: 'HosbyConflictError',
+            success: false,
+            method: 'POST',
+            path: 'users/insertOne',
+            requestId: 'req-123',
+            payload,
+            data: { field: 'email' }
+        });
+    });
+
+    test('should expose Retry-After on rate limit errors', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce(
+            errorResponse(429, { message: 'Too many requests' }, { 'Retry-After': '30' })
+        );
+
+        const error = await client.find('users').catch(e => e);
+
+        expect(error).toBeInstanceOf(HosbyRateLimitError);
+        expect(error.retryAfter).toBe(30000);
+    });
+
+    test('should wrap transport failures in HosbyNetworkError', async () => {
+        const cause = new TypeError('fetch failed');
+        (global.fetch as jest.Mock).mockRejectedValueOnce(cause);
+
+        const error = await client.count('users').catch(e => e);
+
+        expect(error).toBeInstanceOf(HosbyNetworkError);
+        expect(error.cause).toBe(cause);
+        expect(error.status).toBe(0);
+    });
+
+    test('should tell timeouts apart from HTTP errors', async () => {
+        (global.fetch as jest.Mock).mockImplementationOnce(() => new Promise(() => { }));
+
+        const error = await client.find('users', [], {}, { timeout: 10 }).catch(e => e);
+
+        expect(error).toBeInstanceOf(HosbyTimeoutError);
+        expect(error).not.toBeInstanceOf(HosbyHttpError);
+        expect(error).toMatchObject({ method: 'GET', path: 'users/find' });
+    });
+
+    test('should throw HosbyValidationError for invalid CRUD arguments', async () => {
+        await expect(client.find('')).rejects.toBeInstanceOf(HosbyValidationError);
+        await expect(client.updateOne('users', {}, [])).rejects.toThrow(HosbyValidationError);
+        await expect(client.bulkDelete('users', [])).rejects.toThrow('At least one filter is required for bulk delete');
+        await expect(client.login('', 'users', {})).rejects.toMatchObject({ status: 400 });
+        expect(global.fetch).not.toHaveBeenCalled();
+    });
+});
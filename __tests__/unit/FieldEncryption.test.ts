@@ -0,0 +1,268 @@
+// Mock JSEncrypt and window before importing anything
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature')
+        }))
+    };
+});
+
+// Encrypt with the real AES and HMAC implementations
+jest.unmock('crypto-js');
+
+// Mock window object
+global.window = {} as any;
+
+import {
+    FieldEncryptionConfig,
+    FieldEncryptor,
+    HosbyClient,
+    HosbyIntegrityError,
+    HosbyValidationError,
+    createTestTransport
+} from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const key = Buffer.alloc(32, 7).toString('base64');
+
+const fieldEncryption: FieldEncryptionConfig = {
+    key,
+    fields: {
+        users: [{ path: 'email', mode: 'deterministic' }, 'ssn', 'profile.phone', 'addresses.street']
+    }
+};
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject',
+    fieldEncryption
+};
+
+const user = {
+    name: 'Ada',
+    email: 'ada@example.com',
+    ssn: '123-45-6789',
+    profile: { phone: '+33 6 00 00 00 00', bio: 'Mathematician' },
+    addresses: [{ street: '1 Analytical Lane', city: 'London' }, { city: 'Paris' }]
+};
+
+describe('FieldEncryptor', () => {
+    const encryptor = new FieldEncryptor(fieldEncryption);
+
+    test('should encrypt the configured fields and decrypt them back', () => {
+        const encrypted = encryptor.encryptDocument('users', user);
+
+        expect(encrypted.name).toBe('Ada');
+        expect(encrypted.profile.bio).toBe('Mathematician');
+        expect(encrypted.addresses[0].city).toBe('London');
+        [encrypted.email, encrypted.ssn, encrypted.profile.phone, encrypted.addresses[0].street].forEach(value => {
+            expect(value).toMatch(/^hosby:v1:[rd]:[A-Za-z0-9+/=]+$/);
+        });
+        expect(encrypted.addresses[1]).toEqual({ city: 'Paris' });
+        expect(encryptor.decryptDocument('users', encrypted)).toEqual(user);
+    });
+
+    test('should not modify the input document', () => {
+        const copy = JSON.parse(JSON.stringify(user));
+
+        encryptor.encryptDocument('users', user);
+
+        expect(user).toEqual(copy);
+    });
+
+    test('should preserve the JSON type of values', () => {
+        const encrypted = encryptor.encryptDocument('users', { ssn: { country: 'FR', number: 42 } });
+
+        expect(typeof encrypted.ssn).toBe('string');
+        expect(encryptor.decryptDocument('users', encrypted)).toEqual({ ssn: { country: 'FR', number: 42 } });
+    });
+
+    test('should produce stable ciphertexts only in deterministic mode', () => {
+        const first = encryptor.encryptDocument('users', user);
+        const second = encryptor.encryptDocument('users', user);
+
+        expect(first.email).toBe(second.email);
+        expect(first.ssn).not.toBe(second.ssn);
+        expect(encryptor.encryptValue('users', 'email', 'bob@example.com')).not.toBe(first.email);
+    });
+
+    test('should encrypt arrays of documents, update operators and dotted keys', () => {
+        const encrypted = encryptor.encryptDocument('users', [
+            { $set: { ssn: '1', 'profile.phone': '2' } },
+            { ssn: '3' }
+        ]);
+
+        expect(encrypted[0].$set?.ssn).toMatch(/^hosby:v1:r:/);
+        expect(encrypted[0].$set?.['profile.phone']).toMatch(/^hosby:v1:r:/);
+        expect(encryptor.decryptValue('users', 'profile.phone', encrypted[0].$set?.['profile.phone'])).toBe('2');
+        expect(encrypted[1].ssn).toMatch(/^hosby:v1:r:/);
+    });
+
+    test('should leave other tables unchanged', () => {
+        const order = { email: 'ada@example.com' };
+
+        expect(encryptor.encryptDocument('orders', order)).toBe(order);
+        expect(encryptor.decryptDocument('orders', order)).toBe(order);
+    });
+
+    test('should reject unencrypted values unless plaintext is allowed', () => {
+        const migrating = new FieldEncryptor({ ...fieldEncryption, allowPlaintext: true });
+
+        expect(() => encryptor.decryptDocument('users', { ssn: 'injected plaintext' }))
+            .toThrow('Encrypted field "ssn" of table "users" is not encrypted');
+        expect(() => encryptor.decryptValue('users', 'ssn', 42)).toThrow(HosbyIntegrityError);
+        expect(migrating.decryptDocument('users', { ssn: 'legacy plaintext' })).toEqual({ ssn: 'legacy plaintext' });
+    });
+
+    test('should reject altered, moved or foreign ciphertexts', () => {
+        const ssn = encryptor.encryptValue('users', 'ssn', '123-45-6789');
+        const tampered = `${ssn.slice(0, -8)}${ssn.slice(-8) === 'AAAAAAAA' ? 'BBBBBBBB' : 'AAAAAAAA'}`;
+        const foreign = new FieldEncryptor({ ...fieldEncryption, key: Buffer.alloc(32, 8).toString('base64') });
+
+        expect(() => encryptor.decryptValue('users', 'ssn', tampered)).toThrow(HosbyIntegrityError);
+        expect(() => encryptor.decryptValue('users', 'email', ssn)).toThrow('Encrypted field "email" of table "users" failed authentication');
+        expect(() => foreign.decryptValue('users', 'ssn', ssn)).toThrow(HosbyIntegrityError);
+        expect(() => encryptor.decryptValue('users', 'ssn', 'hosby:v1:r:AAAA')).toThrow(HosbyIntegrityError);
+    });
+
+    test('should encrypt filters on deterministic fields only', () => {
+        const filters = encryptor.encryptFilters('users', [{ field: 'email', value: 'ada@example.com' }, { field: 'name', value: 'Ada' }]);
+
+        expect(filters).toEqual([
+            { field: 'email', value: encryptor.encryptDocument('users', user).email },
+            { field: 'name', value: 'Ada' }
+        ]);
+        expect(() => encryptor.encryptFilters('users', [{ field: 'ssn', value: '123-45-6789' }])).toThrow(HosbyValidationError);
+    });
+
+    test('should encrypt the equality operands of queries on deterministic fields', () => {
+        const encrypt = (value: string) => encryptor.encryptValue('users', 'email', value, 'deterministic');
+        const options = { limit: 10, query: { email: { $eq: 'ada@example.com', $nin: ['bob@example.com', null] }, name: { $regex: '^A' } } };
+
+        expect(encryptor.encryptQuery('users', options)).toEqual({
+            limit: 10,
+            query: { email: { $eq: encrypt('ada@example.com'), $nin: [encrypt('bob@example.com'), encrypt(null as any)] }, name: { $regex: '^A' } }
+        });
+        expect(encryptor.encryptQuery('users', { query: { name: { $eq: 'Ada' } } })).toEqual({ query: { name: { $eq: 'Ada' } } });
+        expect(() => encryptor.encryptQuery('users', { query: { ssn: { $eq: '123-45-6789' } } }))
+            .toThrow('Field "ssn" of table "users" uses random encryption and cannot be queried, use the deterministic mode');
+        expect(() => encryptor.encryptQuery('users', { query: { email: { $regex: 'example' } } }))
+            .toThrow('Field "email" of table "users" is encrypted and only supports the $eq, $ne, $in, $nin operators, received $regex');
+    });
+
+    test('should reject invalid configurations', () => {
+        expect(() => new FieldEncryptor({ key: 'c2hvcnQ=', fields: {} })).toThrow('Field encryption key must be 32 bytes encoded as base64');
+        expect(() => new FieldEncryptor({ key, fields: { users: [''] } })).toThrow('Encrypted field of table "users" requires a path');
+        expect(() => new FieldEncryptor({ key, fields: { users: [{ path: 'ssn', mode: 'ecb' as any }] } }))
+            .toThrow('Invalid encryption mode "ecb" for field "ssn". Expected "random" or "deterministic"');
+    });
+});
+
+describe('Client field encryption', () => {
+    const encryptor = new FieldEncryptor(fieldEncryption);
+
+    /**
+     * Server storing the documents it receives as is, and returning them
+     */
+    const server = () => {
+        const stored: any[] = [];
+        const transport = createTestTransport(({ method, url, body }) => {
+            if (method === 'POST' || method === 'PUT') {
+                stored.push(...(Array.isArray(body) ? body : [body]));
+                return { body: { success: true, status: 201, message: 'Created', data: body } };
+            }
+            const email = url.searchParams.get('email');
+            const data = stored.filter(document => !email || document.email === decodeURIComponent(email));
+            return { body: { success: true, status: 200, message: 'OK', data } };
+        });
+        return { stored, transport };
+    };
+
+    test('should encrypt inserted documents and decrypt the response', async () => {
+        const { stored, transport } = server();
+        const client = new HosbyClient({ ...config, transport });
+
+        const response = await client.insertOne('users', user);
+
+        expect(stored[0].ssn).not.toBe(user.ssn);
+        expect(encryptor.decryptDocument('users', stored[0])).toEqual(user);
+        expect(response.data).toEqual(user);
+    });
+
+    test('should find documents by a deterministic field', async () => {
+        const { transport } = server();
+        const client = new HosbyClient({ ...config, transport });
+        await client.insertMany('users', [user, { ...user, email: 'bob@example.com', name: 'Bob' }]);
+
+        const response = await client.find<typeof user[]>('users', [{ field: 'email', value: 'bob@example.com' }]);
+
+        expect(response.data).toEqual([{ ...user, email: 'bob@example.com', name: 'Bob' }]);
+        expect(transport.requests[1].url.search).not.toContain('bob');
+    });
+
+    test('should encrypt bulk inserts and updates', async () => {
+        const { stored, transport } = server();
+        const client = new HosbyClient({ ...config, transport });
+
+        await client.bulkInsert('users', [user]);
+        await client.updateOne('users', { ssn: '987-65-4321' }, [{ field: 'email', value: 'ada@example.com' }]);
+
+        expect(encryptor.decryptDocument('users', stored[0])).toEqual(user);
+        expect(transport.requests[1].body).toEqual({ ssn: expect.stringMatching(/^hosby:v1:r:/) });
+        expect(transport.requests[1].url.searchParams.get('email')).toMatch(/^hosby%3Av1%3Ad%3A/);
+    });
+
+    test('should reject filters on randomly encrypted fields without sending the request', async () => {
+        const { transport } = server();
+        const client = new HosbyClient({ ...config, transport });
+
+        await expect(client.find('users', [{ field: 'ssn', value: '123-45-6789' }]))
+            .rejects.toThrow('Field "ssn" of table "users" uses random encryption and cannot be filtered, use the deterministic mode');
+        expect(transport.requests).toHaveLength(0);
+    });
+
+    test('should encrypt queries on deterministic fields and reject queries on random fields', async () => {
+        const { transport } = server();
+        const client = new HosbyClient({ ...config, transport });
+
+        await client.find('users', [], { query: { email: { $in: ['ada@example.com'] } } });
+        await expect(client.find('users', [], { query: { ssn: { $ne: '123-45-6789' } } })).rejects.toBeInstanceOf(HosbyValidationError);
+
+        const query = transport.requests[0].headers['x-query'];
+        expect(query).not.toContain('ada@example.com');
+        expect(JSON.parse(query)).toEqual({ email: { $in: [encryptor.encryptValue('users', 'email', 'ada@example.com')] } });
+        expect(transport.requests).toHaveLength(1);
+    });
+
+    test('should cache encrypted responses and decrypt them on every read', async () => {
+        const { transport } = server();
+        const client = new HosbyClient({ ...config, transport, cache: true });
+        await client.insertOne('users', user);
+
+        const first = await client.find('users');
+        const second = await client.find('users');
+
+        expect(first.data).toEqual([user]);
+        expect(second.data).toEqual([user]);
+        expect(transport.requests.filter(request => request.method === 'GET')).toHaveLength(1);
+    });
+
+    test('should report tampered fields as integrity errors', async () => {
+        const transport = createTestTransport(() => ({
+            body: { success: true, status: 200, message: 'OK', data: [{ ssn: 'hosby:v1:r:AAAA' }] }
+        }));
+        const client = new HosbyClient({ ...config, transport, errorMode: 'result' });
+
+        const result = await client.find('users');
+
+        expect(!result.ok && result.error).toBeInstanceOf(HosbyIntegrityError);
+    });
+});
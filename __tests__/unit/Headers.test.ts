@@ -0,0 +1,118 @@
+// Mock JSEncrypt and window before importing anything
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature')
+        }))
+    };
+});
+
+// Mock window object
+global.window = {} as any;
+
+import { HosbyClient, HosbyValidationError } from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject'
+};
+
+const sentHeaders = (call = 0) => (global.fetch as jest.Mock).mock.calls[call][1].headers;
+
+describe('Custom headers', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (global.fetch as jest.Mock).mockReset();
+        (global.fetch as jest.Mock).mockResolvedValue({
+            ok: true,
+            status: 200,
+            headers: { get: () => null },
+            json: async () => ({ success: true, status: 200, message: 'OK', data: [] })
+        });
+    });
+
+    test('should send the configured default headers with every request', async () => {
+        const client = new HosbyClient({ ...config, headers: { 'x-tenant-id': 'acme', 'Accept-Language': 'fr' } });
+
+        await client.find('users');
+        await client.insertOne('users', { name: 'Jane' });
+
+        [0, 1].forEach(call => expect(sentHeaders(call)).toEqual(expect.objectContaining({
+            'x-tenant-id': 'acme',
+            'Accept-Language': 'fr',
+            'x-api-key': 'test-api-key-id_test-project-id_test-user-id',
+            'x-signature': 'mocked-signature'
+        })));
+    });
+
+    test('should merge per-call headers over the defaults', async () => {
+        const client = new HosbyClient({ ...config, headers: { 'x-tenant-id': 'acme', 'Accept-Language': 'fr' } });
+
+        await client.find('users', [], {}, { headers: { 'accept-language': 'en', 'x-request-source': 'dashboard' } });
+
+        const headers = sentHeaders();
+        expect(headers).toEqual(expect.objectContaining({
+            'x-tenant-id': 'acme',
+            'accept-language': 'en',
+            'x-request-source': 'dashboard'
+        }));
+        expect(headers).not.toHaveProperty('Accept-Language');
+    });
+
+    test('should accept per-call headers on auth methods', async () => {
+        const client = new HosbyClient(config);
+
+        await client.login('email', 'users', { email: 'a@b.c' }, { headers: { 'x-device-id': 'device-1' } });
+        await client.logout('email', 'users', { headers: { 'x-device-id': 'device-1' } });
+
+        expect(sentHeaders(0)['x-device-id']).toBe('device-1');
+        expect(sentHeaders(1)['x-device-id']).toBe('device-1');
+    });
+
+    test('should let custom headers override non-protected defaults', async () => {
+        const client = new HosbyClient({ ...config, headers: { 'content-type': 'application/merge-patch+json' } });
+
+        await client.updateOne('users', { name: 'Jane' }, [{ field: 'id', value: '1' }]);
+
+        expect(sentHeaders()['content-type']).toBe('application/merge-patch+json');
+        expect(sentHeaders()).not.toHaveProperty('Content-Type');
+    });
+
+    test.each(['x-signature', 'X-Timestamp', 'x-api-key', 'x-csrf-token-hosby'])(
+        'should reject a default %s header',
+        (header) => {
+            expect(() => new HosbyClient({ ...config, headers: { [header]: 'forged' } }))
+                .toThrow(`Header "${header}" is set by the client and cannot be overridden`);
+        }
+    );
+
+    test('should reject protected per-call headers without sending the request', async () => {
+        const client = new HosbyClient(config);
+
+        const error = await client.find('users', [], {}, { headers: { 'X-API-KEY': 'forged' } }).catch(e => e);
+
+        expect(error).toBeInstanceOf(HosbyValidationError);
+        expect(error.message).toBe('Header "X-API-KEY" is set by the client and cannot be overridden');
+        expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    test('should not share in-flight GETs sent with different headers', async () => {
+        const client = new HosbyClient(config);
+
+        await Promise.all([
+            client.find('users', [], {}, { headers: { 'Accept-Language': 'fr' } }),
+            client.find('users', [], {}, { headers: { 'Accept-Language': 'en' } })
+        ]);
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,188 @@
+// Mock JSEncrypt and window before importing anything
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature')
+        }))
+    };
+});
+
+// Mock window object
+global.window = {} as any;
+
+import { HosbyAuthError, HosbyClient, KeySet, TestTransportRequest, createTestTransport, isUnknownKeyError } from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'key-1',
+    projectName: 'testproject'
+};
+
+const keyId = (request: TestTransportRequest) => request.headers['x-api-key'].split('_')[0];
+
+/**
+ * Server knowing a fixed set of keys, answering 401 UNKNOWN_API_KEY for the others
+ */
+const server = (...known: string[]) => createTestTransport(request => known.includes(keyId(request))
+    ? { body: { success: true, status: 200, message: 'OK', data: [] } }
+    : { status: 401, body: { success: false, status: 401, message: 'Invalid credentials', code: 'UNKNOWN_API_KEY' } });
+
+describe('KeySet', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test('should activate the first key by default', () => {
+        const keys = new KeySet([{ apiKeyId: 'key-1', privateKey: 'a' }, { apiKeyId: 'key-2', privateKey: 'b' }]);
+
+        expect(keys.active.apiKeyId).toBe('key-1');
+        expect(keys.ids).toEqual(['key-1', 'key-2']);
+        expect(keys.fallback).toBeUndefined();
+    });
+
+    test('should keep the previous key as a fallback during the grace period', () => {
+        jest.useFakeTimers({ now: 1700000000000 });
+        const keys = new KeySet([{ apiKeyId: 'key-1', privateKey: 'a' }]);
+
+        keys.rotate({ apiKeyId: 'key-2', privateKey: 'b' }, { gracePeriod: 1000 });
+
+        expect(keys.active.apiKeyId).toBe('key-2');
+        expect(keys.fallback?.apiKeyId).toBe('key-1');
+        jest.advanceTimersByTime(1000);
+        expect(keys.fallback).toBeUndefined();
+    });
+
+    test('should drop the fallback when a key is activated or removed', () => {
+        const keys = new KeySet([{ apiKeyId: 'key-1', privateKey: 'a' }]);
+
+        keys.rotate({ apiKeyId: 'key-2', privateKey: 'b' });
+        keys.activate('key-1');
+        expect(keys.fallback).toBeUndefined();
+
+        keys.rotate({ apiKeyId: 'key-3', privateKey: 'c' });
+        keys.remove('key-1');
+        expect(keys.fallback).toBeUndefined();
+        expect(keys.ids).toEqual(['key-2', 'key-3']);
+    });
+
+    test('should reject invalid keys and operations', () => {
+        expect(() => new KeySet([])).toThrow('Key set requires at least one signing key');
+        expect(() => new KeySet([{ apiKeyId: 'key-1' }])).toThrow('Signing key "key-1" requires a privateKey, a signer or credentials');
+        expect(() => new KeySet([{ apiKeyId: '', privateKey: 'a' }])).toThrow('Signing key requires an apiKeyId');
+        expect(() => new KeySet([{ apiKeyId: 'key-1', privateKey: 'a' }], 'key-2')).toThrow('Unknown signing key "key-2"');
+
+        const keys = new KeySet([{ apiKeyId: 'key-1', privateKey: 'a' }]);
+        expect(() => keys.remove('key-1')).toThrow('Signing key "key-1" is active and cannot be removed');
+        expect(() => keys.activate('key-2')).toThrow('Unknown signing key "key-2"');
+        expect(() => keys.rotate({ apiKeyId: 'key-2', privateKey: 'b' }, { gracePeriod: -1 }))
+            .toThrow('Key grace period must be a non-negative number of milliseconds');
+    });
+});
+
+describe('isUnknownKeyError', () => {
+    test('should match auth errors with the unknown key code or message', () => {
+        expect(isUnknownKeyError(new HosbyAuthError('Denied', { status: 401, payload: { code: 'UNKNOWN_API_KEY' } }))).toBe(true);
+        expect(isUnknownKeyError(new HosbyAuthError('Unknown API key', { status: 401 }))).toBe(true);
+        expect(isUnknownKeyError(new HosbyAuthError('Invalid signature', { status: 401 }))).toBe(false);
+        expect(isUnknownKeyError(new Error('Unknown API key'))).toBe(false);
+    });
+});
+
+describe('Key rotation', () => {
+    test('should sign with the active key of the key set', async () => {
+        const transport = server('key-2');
+        const client = new HosbyClient({
+            ...config,
+            transport,
+            keys: [{ apiKeyId: 'key-2', privateKey: 'other-private-key' }],
+            activeKeyId: 'key-2'
+        });
+
+        await client.find('users');
+
+        expect(client.getActiveKeyId()).toBe('key-2');
+        expect(keyId(transport.requests[0])).toBe('key-2');
+    });
+
+    test('should hot-swap the signing key', async () => {
+        const transport = server('key-1', 'key-2');
+        const client = new HosbyClient({ ...config, transport });
+
+        await client.find('users');
+        client.rotateKey({ apiKeyId: 'key-2', privateKey: 'new-private-key' });
+        await client.find('users');
+
+        expect(transport.requests.map(keyId)).toEqual(['key-1', 'key-2']);
+    });
+
+    test('should fall back to the previous key on an unknown key error', async () => {
+        const transport = server('key-1');
+        const client = new HosbyClient({ ...config, transport });
+        client.rotateKey({ apiKeyId: 'key-2', privateKey: 'new-private-key' });
+
+        const response = await client.find('users');
+
+        expect(response.success).toBe(true);
+        expect(transport.requests.map(keyId)).toEqual(['key-2', 'key-1']);
+    });
+
+    test('should use the signer of each key', async () => {
+        const transport = server('key-1', 'key-2');
+        const client = new HosbyClient({ ...config, transport });
+
+        client.rotateKey({ apiKeyId: 'key-2', signer: { algorithm: 'Ed25519', sign: () => 'key-2-signature' } });
+        await client.find('users');
+
+        expect(transport.requests[0].headers['x-signature']).toBe('key-2-signature');
+        expect(transport.requests[0].headers['x-signature-algorithm']).toBe('Ed25519');
+    });
+
+    test('should not fall back after the grace period', async () => {
+        const transport = server('key-1');
+        const client = new HosbyClient({ ...config, transport });
+        client.rotateKey({ apiKeyId: 'key-2', privateKey: 'new-private-key' }, { gracePeriod: 0 });
+
+        await expect(client.find('users')).rejects.toBeInstanceOf(HosbyAuthError);
+        expect(transport.requests).toHaveLength(1);
+    });
+
+    test('should not fall back on other auth errors', async () => {
+        const transport = createTestTransport(() => ({
+            status: 401,
+            body: { success: false, status: 401, message: 'Invalid signature' }
+        }));
+        const client = new HosbyClient({ ...config, transport });
+        client.rotateKey({ apiKeyId: 'key-2', privateKey: 'new-private-key' });
+
+        await expect(client.find('users')).rejects.toThrow('Invalid signature');
+        expect(transport.requests).toHaveLength(1);
+    });
+
+    test('should fail when the previous key is unknown as well', async () => {
+        const transport = server();
+        const client = new HosbyClient({ ...config, transport });
+        client.rotateKey({ apiKeyId: 'key-2', privateKey: 'new-private-key' });
+
+        await expect(client.find('users')).rejects.toBeInstanceOf(HosbyAuthError);
+        expect(transport.requests.map(keyId)).toEqual(['key-2', 'key-1']);
+    });
+
+    test('should switch between keys of the key set', async () => {
+        const transport = server('key-1', 'key-2');
+        const client = new HosbyClient({ ...config, transport, keys: [{ apiKeyId: 'key-2', privateKey: 'other-private-key' }] });
+
+        client.setActiveKey('key-2');
+        await client.find('users');
+
+        expect(keyId(transport.requests[0])).toBe('key-2');
+        expect(() => client.setActiveKey('key-3')).toThrow('Unknown signing key "key-3"');
+    });
+});
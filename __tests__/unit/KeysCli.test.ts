@@ -0,0 +1,171 @@
+// Sign with the real JSEncrypt, SHA-256, PEM and key implementations to compare the client and the command
+jest.unmock('jsencrypt');
+jest.unmock('crypto-js');
+jest.unmock('../../src/utils/formatPem');
+jest.unmock('../../src/utils/keyInfo');
+
+// Mock window object, required by JSEncrypt
+global.window = {} as any;
+
+import * as crypto from 'crypto';
+import { HosbyClient, createTestTransport } from '../../src';
+import { CliEnvironment, runCli } from '../../src/cli';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const subtle = crypto.webcrypto.subtle as any;
+
+const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const privateKey = `sk_${rsa.privateKey.export({ type: 'pkcs8', format: 'der' }).toString('base64')}`;
+const publicKey = `pk_${rsa.publicKey.export({ type: 'spki', format: 'der' }).toString('base64')}`;
+
+const identity = ['--api-key-id', 'test-api-key-id', '--project-id', 'test-project-id', '--user-id', 'test-user-id'];
+
+/**
+ * Runs the command and captures its output
+ */
+const run = async (args: string[], env: Partial<CliEnvironment> = {}) => {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const code = await runCli(args, {
+        subtle,
+        now: () => 1700000000000,
+        stdout: text => stdout.push(text),
+        stderr: text => stderr.push(text),
+        ...env
+    });
+    return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+};
+
+describe('hosby keys generate', () => {
+    test('should generate RSA key pairs as sk_ and pk_ keys', async () => {
+        const { code, stdout } = await run(['keys', 'generate', '--json']);
+        const output = JSON.parse(stdout);
+
+        expect(code).toBe(0);
+        expect(output.algorithm).toBe('RSA-SHA256');
+        expect(output.privateKey).toMatch(/^sk_MII/);
+        expect(output.publicKey).toMatch(/^pk_MII/);
+        const generated = crypto.createPrivateKey({ key: Buffer.from(output.privateKey.slice(3), 'base64'), format: 'der', type: 'pkcs8' });
+        expect(generated.asymmetricKeyDetails?.modulusLength).toBe(2048);
+        expect(crypto.createPublicKey(generated).export({ type: 'spki', format: 'der' }).toString('base64')).toBe(output.publicKey.slice(3));
+    });
+
+    test('should generate keys of the other algorithms', async () => {
+        const ecdsa = JSON.parse((await run(['keys', 'generate', '--algorithm', 'ECDSA-P256', '--json'])).stdout);
+        const ed25519 = await run(['keys', 'generate', '--algorithm=Ed25519']);
+
+        expect(crypto.createPublicKey({ key: Buffer.from(ecdsa.publicKey.slice(3), 'base64'), format: 'der', type: 'spki' })
+            .asymmetricKeyDetails?.namedCurve).toBe('prime256v1');
+        expect(ed25519.stdout).toMatch(/^Algorithm: {3}Ed25519 \(Ed25519 256 bits\)\nFingerprint: SHA256:\S+\nPrivate key: sk_\S+\nPublic key: {2}pk_\S+$/);
+    });
+
+    test('should reject weak RSA keys and unknown algorithms', async () => {
+        expect((await run(['keys', 'generate', '--bits', '1024'])).stderr).toBe('Error: --bits must be an integer of at least 2048');
+        expect((await run(['keys', 'generate', '--algorithm', 'DSA'])).stderr)
+            .toBe('Error: Unsupported signature algorithm "DSA". Expected one of RSA-SHA256, RSA-PSS, ECDSA-P256, Ed25519');
+    });
+});
+
+describe('hosby keys fingerprint', () => {
+    test('should print the description of a key read from a file', async () => {
+        const fs = { readFile: jest.fn().mockResolvedValue(rsa.privateKey.export({ type: 'pkcs1', format: 'pem' })) };
+
+        const { code, stdout } = await run(['keys', 'fingerprint', '--file', 'hosby.pem'], { fs });
+
+        expect(code).toBe(0);
+        expect(fs.readFile).toHaveBeenCalledWith('hosby.pem', 'utf8');
+        const fingerprint = crypto.createHash('sha256').update(rsa.publicKey.export({ type: 'spki', format: 'der' })).digest('base64');
+        expect(stdout).toBe([
+            'Format:      pkcs1 (private)',
+            'Algorithm:   RSA 2048 bits',
+            'Exponent:    65537',
+            `Fingerprint: SHA256:${fingerprint.replace(/=+$/, '')}`,
+            `Public key:  ${publicKey}`
+        ].join('\n'));
+    });
+
+    test('should fail without a key', async () => {
+        const { code, stderr } = await run(['keys', 'fingerprint']);
+
+        expect(code).toBe(1);
+        expect(stderr).toBe('Error: A key is required, pass it as an argument or with --file <path>');
+    });
+});
+
+describe('hosby keys sign', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test.each(['v1', 'v2'])('should produce the %s signature headers of the client', async (signatureVersion) => {
+        jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+        const transport = createTestTransport(() => ({ body: { success: true, status: 200, message: 'OK', data: [] } }));
+        const config: SecureClientConfig = {
+            baseURL: 'https://api.hosby.com',
+            privateKey,
+            projectId: 'test-project-id',
+            userId: 'test-user-id',
+            apiKeyId: 'test-api-key-id',
+            projectName: 'project',
+            signatureVersion: signatureVersion as 'v1' | 'v2',
+            transport
+        };
+        await new HosbyClient(config).find('users');
+
+        const { code, stdout } = await run(['keys', 'sign', privateKey, ...identity, '--signature-version', signatureVersion, '--json']);
+        const output = JSON.parse(stdout);
+
+        expect(code).toBe(0);
+        expect(output.verified).toBe(true);
+        const { headers } = transport.requests[0];
+        expect(output.headers).toEqual(Object.fromEntries(Object.entries(headers).filter(([name]) => name.startsWith('x-'))));
+    });
+
+    test('should verify the signature with the registered public key', async () => {
+        const other = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).publicKey;
+
+        const valid = await run(['keys', 'sign', privateKey, ...identity, '--public-key', publicKey]);
+        const invalid = await run(['keys', 'sign', privateKey, ...identity, '--public-key', other.export({ type: 'spki', format: 'pem' }) as string]);
+
+        expect(valid.code).toBe(0);
+        expect(valid.stdout).toMatch(/^Payload:\ntest-api-key-id_test-project-id_test-user-id:1700000000000\n\nHeaders:\nx-signature: \S+\n/);
+        expect(valid.stdout).toMatch(/Signature verified with the public key SHA256:\S+$/);
+        expect(invalid.code).toBe(1);
+        expect(invalid.stdout).toMatch(/Signature does not match the public key SHA256:\S+$/);
+    });
+
+    test('should sign with the algorithm of the key', async () => {
+        const ec = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+        const { code, stdout } = await run(['keys', 'sign', ec.privateKey.export({ type: 'pkcs8', format: 'pem' }) as string, ...identity, '--nonce', '--json']);
+        const { payload, headers, verified } = JSON.parse(stdout);
+
+        expect(code).toBe(0);
+        expect(verified).toBe(true);
+        expect(headers['x-signature-algorithm']).toBe('ECDSA-P256');
+        expect(payload).toBe(`test-api-key-id_test-project-id_test-user-id:1700000000000:${headers['x-nonce']}`);
+        expect(crypto.verify('sha256', Buffer.from(payload), { key: ec.publicKey, dsaEncoding: 'ieee-p1363' }, Buffer.from(headers['x-signature'], 'base64')))
+            .toBe(true);
+    });
+
+    test('should reject missing options and public keys', async () => {
+        expect((await run(['keys', 'sign', privateKey, '--api-key-id', 'test-api-key-id'])).stderr).toBe('Error: Option --project-id is required');
+        expect((await run(['keys', 'sign', publicKey, ...identity])).stderr).toBe('Error: A private key is required to sign, received a public key');
+        expect((await run(['keys', 'sign', privateKey, '--api-key-id'])).stderr).toBe('Error: Option --api-key-id requires a value');
+    });
+});
+
+describe('hosby', () => {
+    test('should print the usage', async () => {
+        const help = await run(['keys', '--help']);
+        const unknown = await run(['deploy']);
+
+        expect(help.code).toBe(0);
+        expect(help.stdout).toMatch(/^Usage: hosby keys <command> \[options\]/);
+        expect(unknown.code).toBe(1);
+        expect(unknown.stderr).toBe(help.stdout);
+        expect((await run(['keys', 'rotate'])).stderr).toBe('Error: Unknown command "keys rotate". Expected generate, fingerprint or sign');
+    });
+});
@@ -0,0 +1,208 @@
+// Mock JSEncrypt and window before importing anything
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature')
+        }))
+    };
+});
+
+// Mock window object
+global.window = {} as any;
+
+import { HosbyAbortError, HosbyClient, HosbyTimeoutError, QueueStats, RequestLimiter } from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject'
+};
+
+const jsonResponse = (status: number, body: unknown) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: () => null },
+    json: async () => body
+});
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Request limiter', () => {
+    let pending: Array<() => void>;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.useRealTimers();
+        pending = [];
+        (global.fetch as jest.Mock).mockReset();
+        (global.fetch as jest.Mock).mockImplementation(() => new Promise(resolve => {
+            pending.push(() => resolve(jsonResponse(200, { success: true, status: 200, message: 'OK', data: null })));
+        }));
+    });
+
+    const releaseAll = async () => {
+        await flush();
+        while (pending.length) {
+            pending.splice(0).forEach(release => release());
+            await flush();
+        }
+    };
+
+    test('should cap the number of concurrent requests', async () => {
+        const client = new HosbyClient({ ...config, concurrency: 2 });
+
+        const calls = Array.from({ length: 5 }, (_, i) =>
+            client.updateOne('users', { n: i }, [{ field: 'id', value: String(i) }])
+        );
+        await flush();
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+        expect(client.getQueueStats()).toEqual({ pending: 3, running: 2 });
+
+        pending.shift()?.();
+        await flush();
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+
+        await releaseAll();
+        await Promise.all(calls);
+        expect(global.fetch).toHaveBeenCalledTimes(5);
+        expect(client.getQueueStats()).toEqual({ pending: 0, running: 0 });
+    });
+
+    test('should send higher priority requests first', async () => {
+        const client = new HosbyClient({ ...config, concurrency: 1 });
+
+        const calls = [
+            client.count('first'),
+            client.count('low'),
+            client.count('high', [], { priority: 10 }),
+            client.count('medium', [], { priority: 5 }),
+            client.count('low-again')
+        ];
+        await releaseAll();
+        await Promise.all(calls);
+
+        expect((global.fetch as jest.Mock).mock.calls.map(([url]) => new URL(url).pathname.split('/')[2])).toEqual([
+            'first', 'high', 'medium', 'low', 'low-again'
+        ]);
+    });
+
+    test('should remove cancelled requests from the queue', async () => {
+        const client = new HosbyClient({ ...config, concurrency: 1 });
+        const controller = { signal: AbortSignal.timeout(20) };
+
+        const running = client.count('users', [], { dedupe: false });
+        const cancelled = client.count('users', [], { signal: controller.signal }).catch(e => e);
+        await flush();
+        expect(client.getQueueStats()).toEqual({ pending: 1, running: 1 });
+
+        const error = await cancelled;
+        expect(error).toBeInstanceOf(HosbyAbortError);
+        expect(client.getQueueStats()).toEqual({ pending: 0, running: 1 });
+
+        await releaseAll();
+        await running;
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should remove requests timing out in the queue', async () => {
+        const client = new HosbyClient({ ...config, concurrency: 1 });
+
+        const running = client.count('users', [], { dedupe: false });
+        const timedOut = client.count('users', [], { timeout: 20, retryAttempts: 0 }).catch(e => e);
+        await flush();
+        expect(client.getQueueStats()).toEqual({ pending: 1, running: 1 });
+
+        expect(await timedOut).toBeInstanceOf(HosbyTimeoutError);
+        expect(client.getQueueStats()).toEqual({ pending: 0, running: 1 });
+
+        await releaseAll();
+        await running;
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should sign queued requests when they leave the queue', async () => {
+        const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+        const client = new HosbyClient({ ...config, concurrency: 1 });
+
+        const calls = [client.count('a'), client.count('b')];
+        await flush();
+        now.mockReturnValue(5000);
+        await releaseAll();
+        await Promise.all(calls);
+
+        expect((global.fetch as jest.Mock).mock.calls.map(([, init]) => init.headers['x-timestamp'])).toEqual(['1000', '5000']);
+        now.mockRestore();
+    });
+
+    test('should emit queue depth changes', async () => {
+        const client = new HosbyClient({ ...config, concurrency: 1 });
+        const stats: QueueStats[] = [];
+        const unsubscribe = client.on('queue:change', s => stats.push(s));
+
+        const calls = [client.count('a'), client.count('b')];
+        await releaseAll();
+        await Promise.all(calls);
+        const count = stats.length;
+        unsubscribe();
+        const last = client.count('c');
+        await flush();
+        await releaseAll();
+        await last;
+
+        expect(stats).toHaveLength(count);
+
+        expect(stats).toContainEqual({ pending: 1, running: 1 });
+        expect(stats[stats.length - 1]).toEqual({ pending: 0, running: 0 });
+        expect(stats.every(s => s.running <= 1)).toBe(true);
+    });
+
+    test('should throttle requests with a token bucket', async () => {
+        jest.useFakeTimers({ now: 0 });
+        (global.fetch as jest.Mock).mockImplementation(async () =>
+            jsonResponse(200, { success: true, status: 200, message: 'OK', data: null })
+        );
+        const client = new HosbyClient({ ...config, rateLimit: { requests: 2, interval: 1000 } });
+
+        const calls = ['a', 'b', 'c', 'd'].map(table => client.count(table));
+        await jest.advanceTimersByTimeAsync(0);
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+
+        await jest.advanceTimersByTimeAsync(499);
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+
+        await jest.advanceTimersByTimeAsync(1);
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+
+        await jest.advanceTimersByTimeAsync(500);
+        expect(global.fetch).toHaveBeenCalledTimes(4);
+        await Promise.all(calls);
+    });
+
+    test('should not queue requests without limits', async () => {
+        const client = new HosbyClient(config);
+
+        const calls = ['a', 'b', 'c'].map(table => client.count(table));
+        await flush();
+
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+        expect(client.getQueueStats()).toEqual({ pending: 0, running: 0 });
+        await releaseAll();
+        await Promise.all(calls);
+    });
+
+    test('should validate the limiter options', () => {
+        expect(() => new RequestLimiter({ concurrency: 0 })).toThrow('concurrency must be a positive integer');
+        expect(() => new RequestLimiter({ rateLimit: { requests: 1, interval: 0 } }))
+            .toThrow('rateLimit requires a positive integer of requests per positive interval in milliseconds');
+        expect(() => new HosbyClient({ ...config, concurrency: 1.5 })).toThrow('concurrency must be a positive integer');
+    });
+});
@@ -0,0 +1,140 @@
+// Mock JSEncrypt and window before importing anything
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature')
+        }))
+    };
+});
+
+// Mock window object
+global.window = {} as any;
+
+import { HosbyClient, HosbyValidationError, Middleware, composeMiddleware } from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject'
+};
+
+const jsonResponse = (status: number, body: unknown) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: () => null },
+    json: async () => body
+});
+
+describe('Middleware pipeline', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (global.fetch as jest.Mock).mockReset();
+        (global.fetch as jest.Mock).mockResolvedValue(
+            jsonResponse(200, { success: true, status: 200, message: 'OK', data: [] })
+        );
+    });
+
+    test('should run middleware in order around the request', async () => {
+        const calls: string[] = [];
+        const track = (name: string): Middleware => async (_ctx, next) => {
+            calls.push(`${name}:before`);
+            const response = await next();
+            calls.push(`${name}:after`);
+            return response;
+        };
+        const client = new HosbyClient({ ...config, middleware: [track('first')] });
+        client.use(track('second'));
+
+        await client.find('users');
+
+        expect(calls).toEqual(['first:before', 'second:before', 'second:after', 'first:after']);
+    });
+
+    test('should expose the final URL, signed headers and body', async () => {
+        let seen: any;
+        const client = new HosbyClient(config).use(async (ctx, next) => {
+            seen = { method: ctx.method, url: ctx.url, headers: { ...ctx.headers }, body: ctx.body };
+            return next();
+        });
+
+        await client.updateOne('users', { name: 'Jane' }, [{ field: 'id', value: '1' }], { populate: ['profile'] });
+
+        expect(seen).toEqual({
+            method: 'PATCH',
+            url: 'https://api.hosby.com/testproject/users/updateOne/?id=1',
+            headers: expect.objectContaining({
+                'x-api-key': 'test-api-key-id_test-project-id_test-user-id',
+                'x-signature': 'mocked-signature',
+                'x-populate': 'profile'
+            }),
+            body: { name: 'Jane' }
+        });
+    });
+
+    test('should let middleware modify headers and body', async () => {
+        const client = new HosbyClient(config).use(async (ctx, next) => {
+            ctx.headers['x-tenant-id'] = 'acme';
+            ctx.body = { ...(ctx.body as object), tenant: 'acme' };
+            return next();
+        });
+
+        await client.insertOne('users', { name: 'Jane' });
+
+        const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+        expect(init.headers['x-tenant-id']).toBe('acme');
+        expect(JSON.parse(init.body)).toEqual({ name: 'Jane', tenant: 'acme' });
+    });
+
+    test('should short-circuit the request when next() is not called', async () => {
+        const client = new HosbyClient(config).use(async () =>
+            jsonResponse(200, { success: true, status: 200, message: 'From middleware', data: ['cached'] })
+        );
+
+        const response = await client.find('users');
+
+        expect(response.message).toBe('From middleware');
+        expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    test('should let middleware observe and rewrite error responses', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce(
+            jsonResponse(500, { success: false, status: 500, message: 'Internal error' })
+        );
+        const statuses: number[] = [];
+        const client = new HosbyClient(config).use(async (_ctx, next) => {
+            const response = await next();
+            statuses.push(response.status);
+            if (response.status === 500) {
+                return jsonResponse(503, { success: false, status: 503, message: 'Hosby is unavailable' });
+            }
+            return response;
+        });
+
+        await expect(client.find('users')).rejects.toMatchObject({ status: 503, message: 'Hosby is unavailable' });
+        expect(statuses).toEqual([500]);
+    });
+
+    test('should reject middleware that calls next() twice', async () => {
+        const handler = jest.fn().mockResolvedValue(jsonResponse(200, {}));
+        const run = composeMiddleware([async (_ctx, next) => {
+            await next();
+            return next();
+        }], handler);
+
+        await expect(run({ method: 'GET', url: 'https://api.hosby.com', headers: {}, attempt: 0, state: {} }))
+            .rejects.toThrow('next() called multiple times in the same middleware');
+    });
+
+    test('should reject non-function middleware', () => {
+        expect(() => new HosbyClient(config).use('nope' as any)).toThrow('Middleware must be a function');
+        expect(() => new HosbyClient(config).use('nope' as any)).toThrow(HosbyValidationError);
+    });
+});
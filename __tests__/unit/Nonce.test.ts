@@ -0,0 +1,165 @@
+// Mock JSEncrypt and window before importing anything
+const mockSign = jest.fn().mockReturnValue('mocked-signature');
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: mockSign
+        }))
+    };
+});
+
+// Generate nonces with the real random generator
+jest.unmock('crypto-js');
+
+// Mock window object
+global.window = {} as any;
+
+import { HosbyClient, NonceRegistry, createTestTransport, generateNonce } from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject'
+};
+
+const API_KEY = 'test-api-key-id_test-project-id_test-user-id';
+
+const ok = () => ({ body: { success: true, status: 200, message: 'OK', data: [] } });
+
+describe('generateNonce', () => {
+    test('should generate 128-bit hex nonces', () => {
+        const nonces = new Set(Array.from({ length: 100 }, generateNonce));
+
+        expect(nonces.size).toBe(100);
+        nonces.forEach(nonce => expect(nonce).toMatch(/^[0-9a-f]{32}$/));
+    });
+});
+
+describe('NonceRegistry', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test('should accept a nonce once', () => {
+        const nonces = new NonceRegistry();
+
+        expect(nonces.check('a')).toBe(true);
+        expect(nonces.check('a')).toBe(false);
+        expect(nonces.check('b')).toBe(true);
+        expect(nonces.size).toBe(2);
+    });
+
+    test('should reject missing nonces and timestamps outside the window', () => {
+        const nonces = new NonceRegistry({ window: 1000 });
+        const now = Date.now();
+
+        expect(nonces.check(undefined)).toBe(false);
+        expect(nonces.check('', now)).toBe(false);
+        expect(nonces.check('a', now - 5000)).toBe(false);
+        expect(nonces.check('b', now + 5000)).toBe(false);
+        expect(nonces.check('c', 'not-a-timestamp')).toBe(false);
+        expect(nonces.check('d', String(now))).toBe(true);
+    });
+
+    test('should forget nonces once their timestamp leaves the window', () => {
+        jest.useFakeTimers({ now: 1700000000000 });
+        const nonces = new NonceRegistry({ window: 1000 });
+
+        expect(nonces.check('a')).toBe(true);
+        jest.advanceTimersByTime(500);
+        expect(nonces.check('a')).toBe(false);
+        expect(nonces.size).toBe(1);
+
+        jest.advanceTimersByTime(1000);
+        expect(nonces.size).toBe(0);
+        expect(nonces.check('a', 1700000000000)).toBe(false);
+    });
+
+    test('should clear every nonce', () => {
+        const nonces = new NonceRegistry();
+        nonces.check('a');
+
+        nonces.clear();
+
+        expect(nonces.check('a')).toBe(true);
+    });
+
+    test('should reject an invalid window', () => {
+        expect(() => new NonceRegistry({ window: 0 })).toThrow('Nonce window must be a positive number of milliseconds');
+    });
+});
+
+describe('Request nonces', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    test('should not send a nonce by default', async () => {
+        const transport = createTestTransport(ok);
+        const client = new HosbyClient({ ...config, transport });
+
+        await client.find('users');
+
+        expect(transport.requests[0].headers).not.toHaveProperty('x-nonce');
+    });
+
+    test('should sign a fresh nonce with every request', async () => {
+        const transport = createTestTransport(ok);
+        const client = new HosbyClient({ ...config, transport, nonce: true });
+
+        await client.find('users');
+        await client.find('users');
+
+        const [first, second] = transport.requests.map(request => request.headers);
+        expect(first['x-nonce']).toMatch(/^[0-9a-f]{32}$/);
+        expect(second['x-nonce']).not.toBe(first['x-nonce']);
+        expect(mockSign.mock.calls[0][0]).toBe(`${API_KEY}:${first['x-timestamp']}:${first['x-nonce']}`);
+    });
+
+    test('should cover the nonce in the canonical request', async () => {
+        const transport = createTestTransport(ok);
+        const client = new HosbyClient({ ...config, transport, nonce: true, signatureVersion: 'v2' });
+
+        await client.find('users');
+
+        expect(mockSign.mock.calls[0][0].split('\n')[6]).toBe(transport.requests[0].headers['x-nonce']);
+    });
+
+    test('should keep the nonce when middleware triggers a new signature', async () => {
+        const transport = createTestTransport(ok);
+        const client = new HosbyClient({ ...config, transport, nonce: true, signatureVersion: 'v2' });
+        let nonce: string | undefined;
+        client.use(async (ctx, next) => {
+            nonce = ctx.headers['x-nonce'];
+            ctx.url = `${ctx.url}?tenant=acme`;
+            return next();
+        });
+
+        await client.find('users');
+
+        expect(mockSign).toHaveBeenCalledTimes(2);
+        expect(transport.requests[0].headers['x-nonce']).toBe(nonce);
+    });
+
+    test('should let a mock server reject replayed requests', async () => {
+        const nonces = new NonceRegistry();
+        const transport = createTestTransport(({ headers }) => nonces.check(headers['x-nonce'], headers['x-timestamp'])
+            ? ok()
+            : { status: 401, body: { success: false, status: 401, message: 'Replayed request' } });
+        const client = new HosbyClient({ ...config, transport, nonce: true });
+
+        await client.find('users');
+        const replayed = transport.requests[0];
+        const response = await transport.send(replayed.url.toString(), { method: 'GET', headers: replayed.headers });
+
+        expect(response.status).toBe(401);
+    });
+});
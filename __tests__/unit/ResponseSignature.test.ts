@@ -0,0 +1,187 @@
+// Mock JSEncrypt and window before importing anything
+const mockVerify = jest.fn().mockReturnValue(true);
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            setPublicKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature'),
+            verify: mockVerify
+        }))
+    };
+});
+
+// Hash bodies with the real SHA-256 implementation
+jest.unmock('crypto-js');
+
+// Mock window object
+global.window = {} as any;
+
+import * as crypto from 'crypto';
+import {
+    HosbyAuthError,
+    HosbyClient,
+    HosbyIntegrityError,
+    ResponseVerifier,
+    buildResponsePayload,
+    createResponseVerifier,
+    createTestTransport,
+    hashBody
+} from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject',
+    serverPublicKey: 'pk_server-public-key'
+};
+
+const body = { success: true, status: 200, message: 'OK', data: [{ id: 1 }] };
+const raw = JSON.stringify(body);
+
+const signed = (headers: Record<string, string> = {}) => createTestTransport(() => ({
+    body,
+    headers: { 'x-response-signature': 'server-signature', 'x-response-timestamp': Date.now().toString(), ...headers }
+}));
+
+const integrityError = async (promise: Promise<unknown>): Promise<HosbyIntegrityError> => {
+    const error = await promise.catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(HosbyIntegrityError);
+    return error as HosbyIntegrityError;
+};
+
+describe('buildResponsePayload', () => {
+    test('should join the status, the timestamp and the body hash', () => {
+        expect(buildResponsePayload(200, '1700000000000', raw)).toBe(`200\n1700000000000\n${hashBody(raw)}`);
+        expect(buildResponsePayload(204, '1700000000000')).toBe(`204\n1700000000000\n${hashBody('')}`);
+    });
+});
+
+describe('Response signatures', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockVerify.mockReturnValue(true);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should return responses with a valid signature', async () => {
+        const transport = signed({ 'x-response-timestamp': '1700000000000' });
+        jest.spyOn(Date, 'now').mockReturnValue(1700000001000);
+        const client = new HosbyClient({ ...config, transport });
+
+        const response = await client.find('users');
+
+        expect(response).toEqual(body);
+        expect(mockVerify).toHaveBeenCalledWith(`200\n1700000000000\n${hashBody(raw)}`, 'server-signature', expect.any(Function));
+        const hashFunction = mockVerify.mock.calls[0][2];
+        expect(hashFunction('abc')).toBe(crypto.createHash('sha256').update('abc').digest('hex'));
+    });
+
+    test('should reject responses without a signature', async () => {
+        const transport = createTestTransport(() => ({ body }));
+        const client = new HosbyClient({ ...config, transport });
+
+        const error = await integrityError(client.find('users'));
+
+        expect(error.reason).toBe('missing');
+        expect(error.status).toBe(200);
+        expect(error.path).toBe('users/find');
+        expect(mockVerify).not.toHaveBeenCalled();
+    });
+
+    test('should reject responses with an invalid signature without retrying', async () => {
+        mockVerify.mockReturnValue(false);
+        const transport = signed();
+        const client = new HosbyClient({ ...config, transport, retryAttempts: 2 });
+
+        const error = await integrityError(client.find('users'));
+
+        expect(error.reason).toBe('invalid');
+        expect(error.message).toBe('Response signature is invalid');
+        expect(transport.requests).toHaveLength(1);
+    });
+
+    test('should reject responses signed outside the accepted window', async () => {
+        const transport = signed({ 'x-response-timestamp': (Date.now() - 60000).toString() });
+        const client = new HosbyClient({ ...config, transport, responseMaxAge: 30000 });
+
+        expect((await integrityError(client.find('users'))).reason).toBe('expired');
+        expect((await integrityError(new HosbyClient({
+            ...config,
+            transport: signed({ 'x-response-timestamp': 'yesterday' })
+        }).find('users'))).reason).toBe('expired');
+    });
+
+    test('should not verify error responses', async () => {
+        const transport = createTestTransport(() => ({
+            status: 401,
+            body: { success: false, status: 401, message: 'Invalid signature' }
+        }));
+        const client = new HosbyClient({ ...config, transport });
+
+        await expect(client.find('users')).rejects.toBeInstanceOf(HosbyAuthError);
+        expect(mockVerify).not.toHaveBeenCalled();
+    });
+
+    test('should resolve integrity errors in result mode', async () => {
+        const client = new HosbyClient({ ...config, transport: createTestTransport(() => ({ body })), errorMode: 'result' });
+
+        const result = await client.find('users');
+
+        expect(result.ok).toBe(false);
+        expect(!result.ok && result.error).toBeInstanceOf(HosbyIntegrityError);
+    });
+
+    test('should not verify responses without a server public key', async () => {
+        const client = new HosbyClient({ ...config, serverPublicKey: undefined, transport: createTestTransport(() => ({ body })) });
+
+        await expect(client.find('users')).resolves.toEqual(body);
+    });
+
+    test('should verify signatures with a custom verifier', async () => {
+        const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+        const responseVerifier: ResponseVerifier = {
+            verify: async (data, signature) => crypto.verify(null, Buffer.from(data), publicKey, Buffer.from(signature, 'base64'))
+        };
+        const server = (tamper: boolean) => createTestTransport(() => {
+            const timestamp = Date.now().toString();
+            const signature = crypto.sign(null, Buffer.from(buildResponsePayload(200, timestamp, raw)), privateKey).toString('base64');
+            return {
+                body: tamper ? { ...body, data: [] } : body,
+                headers: { 'x-response-signature': signature, 'x-response-timestamp': timestamp }
+            };
+        });
+
+        await expect(new HosbyClient({ ...config, transport: server(false), responseVerifier }).find('users')).resolves.toEqual(body);
+        expect((await integrityError(new HosbyClient({ ...config, transport: server(true), responseVerifier }).find('users'))).reason)
+            .toBe('invalid');
+        expect(mockVerify).not.toHaveBeenCalled();
+    });
+
+    test('should treat verifier failures as invalid signatures', async () => {
+        const responseVerifier: ResponseVerifier = { verify: () => { throw new Error('Malformed signature'); } };
+        const client = new HosbyClient({ ...config, transport: signed(), responseVerifier });
+
+        expect((await integrityError(client.find('users'))).reason).toBe('invalid');
+    });
+
+    test('should reject invalid configurations', () => {
+        expect(() => createResponseVerifier('')).toThrow('A public key is required to verify response signatures');
+        expect(() => new HosbyClient({ ...config, serverPublicKey: '' }))
+            .toThrow('A public key is required to verify response signatures');
+        expect(() => new HosbyClient({ ...config, responseVerifier: {} as any }))
+            .toThrow('Response verifier must implement a verify(data, signature) method');
+        expect(() => new HosbyClient({ ...config, responseMaxAge: -1 }))
+            .toThrow('responseMaxAge must be a non-negative number of milliseconds');
+    });
+});
@@ -0,0 +1,131 @@
+// Mock JSEncrypt and window before importing anything
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature')
+        }))
+    };
+});
+
+// Mock window object
+global.window = {} as any;
+
+import { HosbyClient, HosbyConflictError, HosbyError, HosbyValidationError } from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject'
+};
+
+interface User {
+    id: string;
+    name: string;
+}
+
+const jsonResponse = (status: number, body: unknown) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: () => null },
+    json: async () => body
+});
+
+describe('Result error mode', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (global.fetch as jest.Mock).mockReset();
+    });
+
+    test('should resolve successful calls to an ok result', async () => {
+        const body = { success: true, status: 200, message: 'OK', data: [{ id: '1', name: 'Jane' }] };
+        (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse(200, body));
+        const client = new HosbyClient({ ...config, errorMode: 'result' });
+
+        const result = await client.find<User[]>('users');
+
+        expect(result).toEqual({ ok: true, data: body.data, response: body });
+        if (result.ok) {
+            expect(result.data[0].name).toBe('Jane');
+        }
+    });
+
+    test('should resolve HTTP failures to a failed result', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce(
+            jsonResponse(409, { success: false, status: 409, message: 'Email already used' })
+        );
+        const client = new HosbyClient({ ...config, errorMode: 'result' });
+
+        const result = await client.insertOne('users', { name: 'Jane' });
+
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+            expect(result.error).toBeInstanceOf(HosbyConflictError);
+            expect(result.error).toMatchObject({ status: 409, message: 'Email already used', method: 'POST' });
+        }
+    });
+
+    test('should resolve validation failures to a failed result without sending a request', async () => {
+        const client = new HosbyClient({ ...config, errorMode: 'result' });
+
+        const result = await client.updateOne('users', {}, []);
+
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+            expect(result.error).toBeInstanceOf(HosbyValidationError);
+        }
+        expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    test('should resolve network failures to a failed result', async () => {
+        (global.fetch as jest.Mock).mockRejectedValueOnce(new TypeError('fetch failed'));
+        const client = new HosbyClient({ ...config, errorMode: 'result' });
+
+        const result = await client.count('users');
+
+        expect(result).toMatchObject({ ok: false, error: { name: 'HosbyNetworkError', status: 0 } });
+    });
+
+    test('should opt into result mode per call', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce(
+            jsonResponse(404, { success: false, status: 404, message: 'Not found' })
+        );
+        const client = new HosbyClient(config);
+
+        const result = await client.findById<User>('users', [{ field: 'id', value: '1' }], { errorMode: 'result' });
+
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+            expect(result.error).toBeInstanceOf(HosbyError);
+            expect(result.error.status).toBe(404);
+        }
+    });
+
+    test('should throw per call in a result mode client', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce(
+            jsonResponse(500, { success: false, status: 500, message: 'Internal error' })
+        );
+        const client = new HosbyClient({ ...config, errorMode: 'result' });
+
+        await expect(client.deleteOne('users', [{ field: 'id', value: '1' }], { errorMode: 'throw' }))
+            .rejects.toMatchObject({ status: 500, message: 'Internal error' });
+    });
+
+    test('should keep rejecting by default', async () => {
+        const client = new HosbyClient(config);
+
+        await expect(client.find('')).rejects.toBeInstanceOf(HosbyValidationError);
+    });
+
+    test('should reject an invalid error mode', () => {
+        expect(() => new HosbyClient({ ...config, errorMode: 'silent' as any }))
+            .toThrow('Invalid errorMode "silent". Expected "throw" or "result"');
+    });
+});
@@ -0,0 +1,221 @@
+// Mock JSEncrypt and window before importing anything
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature')
+        }))
+    };
+});
+
+// Mock window object
+global.window = {} as any;
+
+import { HosbyClient } from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+import { computeBackoff, parseRetryAfter } from '../../src/utils/retry';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject',
+    retryAttempts: 2,
+    retryDelay: 0
+};
+
+const mockResponse = (status: number, headers: Record<string, string> = {}) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: 'Status ' + status,
+    headers: new Headers(headers),
+    json: async () => status < 300
+        ? { success: true, status, message: 'OK', data: [] }
+        : { success: false, status, message: 'Failure ' + status }
+});
+
+describe('Retry engine', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (global.fetch as jest.Mock).mockReset();
+    });
+
+    test('should retry idempotent requests on retryable statuses', async () => {
+        const client = new HosbyClient(config);
+        (global.fetch as jest.Mock)
+            .mockResolvedValueOnce(mockResponse(503))
+            .mockResolvedValueOnce(mockResponse(502))
+            .mockResolvedValueOnce(mockResponse(200));
+
+        const response = await client.find('users');
+
+        expect(response.success).toBe(true);
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    test('should regenerate the timestamp on every attempt', async () => {
+        const client = new HosbyClient(config);
+        let now = 1700000000000;
+        const spy = jest.spyOn(Date, 'now').mockImplementation(() => now++);
+        (global.fetch as jest.Mock)
+            .mockResolvedValueOnce(mockResponse(500))
+            .mockResolvedValueOnce(mockResponse(200));
+
+        try {
+            await client.deleteOne('users', [{ field: 'id', value: '1' }], { idempotencyKey: 'delete-1' });
+        } finally {
+            spy.mockRestore();
+        }
+
+        const [first, second] = (global.fetch as jest.Mock).mock.calls;
+        expect(first[1].headers['x-timestamp']).not.toBe(second[1].headers['x-timestamp']);
+    });
+
+    test('should give up after retryAttempts and throw the last error', async () => {
+        const client = new HosbyClient(config);
+        (global.fetch as jest.Mock).mockResolvedValue(mockResponse(503));
+
+        await expect(client.count('users')).rejects.toMatchObject({ success: false, status: 503 });
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    test('should not retry non-retryable statuses', async () => {
+        const client = new HosbyClient(config);
+        (global.fetch as jest.Mock).mockResolvedValue(mockResponse(404));
+
+        await expect(client.find('users')).rejects.toMatchObject({ status: 404 });
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should retry network errors', async () => {
+        const client = new HosbyClient(config);
+        (global.fetch as jest.Mock)
+            .mockRejectedValueOnce(new TypeError('fetch failed'))
+            .mockResolvedValueOnce(mockResponse(200));
+
+        await expect(client.find('users')).resolves.toMatchObject({ success: true });
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not retry non-idempotent requests without an idempotency key', async () => {
+        const client = new HosbyClient(config);
+        (global.fetch as jest.Mock).mockResolvedValue(mockResponse(503));
+
+        await expect(client.insertOne('users', { name: 'Jane' })).rejects.toMatchObject({ status: 503 });
+        await expect(client.bulkInsert('users', [{ name: 'Jane' }])).rejects.toMatchObject({ status: 503 });
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not retry filtered deletes and replacements without an idempotency key', async () => {
+        const client = new HosbyClient(config);
+        const filters = [{ field: 'status', value: 'archived' }];
+        (global.fetch as jest.Mock).mockResolvedValue(mockResponse(503));
+
+        await expect(client.findOneAndDelete('users', filters)).rejects.toMatchObject({ status: 503 });
+        await expect(client.deleteMany('users', filters)).rejects.toMatchObject({ status: 503 });
+        await expect(client.findOneAndReplace('users', { name: 'Jane' }, filters)).rejects.toMatchObject({ status: 503 });
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    test('should retry filtered deletes and replacements that carry an idempotency key', async () => {
+        const client = new HosbyClient(config);
+        const filters = [{ field: 'status', value: 'archived' }];
+        (global.fetch as jest.Mock)
+            .mockResolvedValueOnce(mockResponse(503))
+            .mockResolvedValueOnce(mockResponse(200))
+            .mockResolvedValueOnce(mockResponse(503))
+            .mockResolvedValueOnce(mockResponse(200))
+            .mockResolvedValueOnce(mockResponse(503))
+            .mockResolvedValueOnce(mockResponse(200));
+
+        await client.findOneAndDelete('users', filters, {}, { idempotencyKey: 'delete-1' });
+        await client.deleteMany('users', filters, {}, { idempotencyKey: 'delete-2' });
+        await client.findOneAndReplace('users', { name: 'Jane' }, filters, {}, { idempotencyKey: 'replace-1' });
+
+        expect(global.fetch).toHaveBeenCalledTimes(6);
+        expect((global.fetch as jest.Mock).mock.calls[5][1].headers['Idempotency-Key']).toBe('replace-1');
+    });
+
+    test('should only retry bulk updates and deletes that carry an idempotency key', async () => {
+        const client = new HosbyClient(config);
+        (global.fetch as jest.Mock).mockResolvedValue(mockResponse(503));
+
+        await expect(client.bulkUpdate('users', { active: false }, [{ field: 'role', value: 'guest' }])).rejects.toMatchObject({ status: 503 });
+        await expect(client.bulkDelete('users', [{ field: 'role', value: 'guest' }])).rejects.toMatchObject({ status: 503 });
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+
+        (global.fetch as jest.Mock).mockClear();
+        (global.fetch as jest.Mock)
+            .mockResolvedValueOnce(mockResponse(503))
+            .mockResolvedValueOnce(mockResponse(200));
+
+        await client.bulkDelete('users', [{ field: 'role', value: 'guest' }], { idempotencyKey: 'purge-guests' });
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+        expect((global.fetch as jest.Mock).mock.calls[1][1].headers['Idempotency-Key']).toBe('purge-guests');
+    });
+
+    test('should retry non-idempotent requests that carry an idempotency key', async () => {
+        const client = new HosbyClient(config);
+        (global.fetch as jest.Mock)
+            .mockResolvedValueOnce(mockResponse(503))
+            .mockResolvedValueOnce(mockResponse(200));
+
+        await client.insertOne('users', { name: 'Jane' }, {}, { idempotencyKey: 'order-42' });
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+        const headers = (global.fetch as jest.Mock).mock.calls[1][1].headers;
+        expect(headers['Idempotency-Key']).toBe('order-42');
+    });
+
+    test('should let per-call retryAttempts override the client setting', async () => {
+        const client = new HosbyClient(config);
+        (global.fetch as jest.Mock).mockResolvedValue(mockResponse(500));
+
+        await expect(client.find('users', [], {}, { retryAttempts: 0 })).rejects.toMatchObject({ status: 500 });
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should wait for Retry-After on 429 responses', async () => {
+        const client = new HosbyClient(config);
+        (global.fetch as jest.Mock)
+            .mockResolvedValueOnce(mockResponse(429, { 'Retry-After': '1' }))
+            .mockResolvedValueOnce(mockResponse(200));
+
+        const start = Date.now();
+        await client.find('users');
+
+        expect(Date.now() - start).toBeGreaterThanOrEqual(950);
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should reject invalid retry configuration', () => {
+        expect(() => new HosbyClient({ ...config, retryAttempts: -1 }))
+            .toThrow('retryAttempts must be a non-negative integer');
+    });
+});
+
+describe('Retry helpers', () => {
+    test('parseRetryAfter should support seconds and HTTP dates', () => {
+        const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+
+        expect(parseRetryAfter('3')).toBe(3000);
+        expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:05 GMT', now)).toBe(5000);
+        expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0);
+        expect(parseRetryAfter('soon')).toBeUndefined();
+        expect(parseRetryAfter(null)).toBeUndefined();
+    });
+
+    test('computeBackoff should stay within the exponential ceiling', () => {
+        for (let attempt = 0; attempt < 10; attempt++) {
+            const delay = computeBackoff(attempt, 100, 2000);
+            expect(delay).toBeGreaterThanOrEqual(0);
+            expect(delay).toBeLessThanOrEqual(Math.min(2000, 100 * Math.pow(2, attempt)));
+        }
+    });
+});
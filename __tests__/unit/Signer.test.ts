@@ -0,0 +1,194 @@
+// Mock JSEncrypt and window before importing anything
+const mockSign = jest.fn().mockReturnValue('mocked-signature');
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: mockSign
+        }))
+    };
+});
+
+// Mock window object
+global.window = {} as any;
+
+import * as crypto from 'crypto';
+import { webcrypto } from 'crypto';
+import {
+    HosbyClient,
+    SignatureAlgorithm,
+    Signer,
+    createNodeSigner,
+    createTestTransport,
+    createWebCryptoSigner
+} from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject'
+};
+
+const subtle = webcrypto.subtle as any;
+
+const keyPairs: Record<SignatureAlgorithm, crypto.KeyPairKeyObjectResult> = {
+    'RSA-SHA256': crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }),
+    'RSA-PSS': crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }),
+    'ECDSA-P256': crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }),
+    'Ed25519': crypto.generateKeyPairSync('ed25519')
+};
+
+const pkcs8 = (algorithm: SignatureAlgorithm): string =>
+    keyPairs[algorithm].privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+const verify = (algorithm: SignatureAlgorithm, data: string, signature: string): boolean => {
+    const key = keyPairs[algorithm].publicKey;
+    const bytes = Buffer.from(data);
+    const signed = Buffer.from(signature, 'base64');
+    switch (algorithm) {
+        case 'RSA-PSS':
+            return crypto.verify('sha256', bytes, {
+                key,
+                padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+                saltLength: 32
+            }, signed);
+        case 'ECDSA-P256':
+            return crypto.verify('sha256', bytes, { key, dsaEncoding: 'ieee-p1363' }, signed);
+        case 'Ed25519':
+            return crypto.verify(null, bytes, key, signed);
+        default:
+            return crypto.verify('sha256', bytes, key, signed);
+    }
+};
+
+const algorithms: SignatureAlgorithm[] = ['RSA-SHA256', 'RSA-PSS', 'ECDSA-P256', 'Ed25519'];
+
+describe('Signers', () => {
+    describe.each([
+        ['WebCrypto', (algorithm: SignatureAlgorithm, privateKey = pkcs8(algorithm)) =>
+            createWebCryptoSigner({ privateKey, algorithm, subtle })],
+        ['Node.js', (algorithm: SignatureAlgorithm, privateKey = pkcs8(algorithm)) =>
+            createNodeSigner({ privateKey, algorithm, crypto })]
+    ])('%s signer', (_, create: (algorithm: SignatureAlgorithm, privateKey?: string) => Signer) => {
+        test.each(algorithms)('should produce verifiable %s signatures', async (algorithm) => {
+            const signer = create(algorithm);
+
+            const signature = await signer.sign('payload');
+
+            expect(signer.algorithm).toBe(algorithm);
+            expect(verify(algorithm, 'payload', signature)).toBe(true);
+            expect(verify(algorithm, 'tampered', signature)).toBe(false);
+        });
+
+        test('should accept sk_ keys without PEM markers', async () => {
+            const der = keyPairs['Ed25519'].privateKey.export({ type: 'pkcs8', format: 'der' }).toString('base64');
+            const signer = create('Ed25519', `sk_${der}`);
+
+            expect(verify('Ed25519', 'payload', await signer.sign('payload'))).toBe(true);
+        });
+
+        test('should reject an unsupported algorithm', () => {
+            expect(() => create('DSA' as SignatureAlgorithm, pkcs8('RSA-SHA256')))
+                .toThrow('Unsupported signature algorithm "DSA". Expected one of RSA-SHA256, RSA-PSS, ECDSA-P256, Ed25519');
+        });
+
+        test('should reject a key of another type', async () => {
+            const signer = (async () => create('Ed25519', pkcs8('ECDSA-P256')).sign('payload'))();
+
+            await expect(signer).rejects.toThrow(/private key/i);
+        });
+    });
+
+    test('should default to RSA-SHA256', () => {
+        expect(createWebCryptoSigner({ privateKey: pkcs8('RSA-SHA256'), subtle }).algorithm).toBe('RSA-SHA256');
+        expect(createNodeSigner({ privateKey: pkcs8('RSA-SHA256'), crypto }).algorithm).toBe('RSA-SHA256');
+    });
+
+    test('should import the WebCrypto key once', async () => {
+        const importKey = jest.spyOn(subtle, 'importKey');
+        const signer = createWebCryptoSigner({ privateKey: pkcs8('ECDSA-P256'), algorithm: 'ECDSA-P256', subtle });
+
+        await Promise.all([signer.sign('a'), signer.sign('b'), signer.sign('c')]);
+
+        expect(importKey).toHaveBeenCalledTimes(1);
+        importKey.mockRestore();
+    });
+
+    test('should reject PKCS#1 keys in the WebCrypto signer', () => {
+        const pkcs1 = keyPairs['RSA-SHA256'].privateKey.export({ type: 'pkcs1', format: 'pem' }).toString();
+
+        expect(() => createWebCryptoSigner({ privateKey: pkcs1, subtle }))
+            .toThrow('Expected a PKCS#8 "PRIVATE KEY", received a "RSA PRIVATE KEY"');
+    });
+
+    test('should accept PKCS#1 keys in the Node.js signer', async () => {
+        const pkcs1 = keyPairs['RSA-SHA256'].privateKey.export({ type: 'pkcs1', format: 'pem' }).toString();
+        const signer = createNodeSigner({ privateKey: pkcs1, crypto });
+
+        expect(verify('RSA-SHA256', 'payload', await signer.sign('payload'))).toBe(true);
+    });
+
+    test('should reject ECDSA keys on another curve in the Node.js signer', () => {
+        const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'secp256k1' });
+        const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+        expect(() => createNodeSigner({ privateKey: pem, algorithm: 'ECDSA-P256', crypto }))
+            .toThrow('Private key of type "ec" cannot produce ECDSA-P256 signatures');
+    });
+});
+
+describe('Client signer', () => {
+    const ok = () => ({ body: { success: true, status: 200, message: 'OK', data: [] } });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    test('should sign requests with the configured signer', async () => {
+        const transport = createTestTransport(ok);
+        const signer = createNodeSigner({ privateKey: pkcs8('Ed25519'), algorithm: 'Ed25519', crypto });
+        const client = new HosbyClient({ ...config, transport, signer });
+
+        await client.find('users');
+
+        const headers = transport.requests[0].headers;
+        expect(headers['x-signature-algorithm']).toBe('Ed25519');
+        expect(verify('Ed25519', `${headers['x-api-key']}:${headers['x-timestamp']}`, headers['x-signature'])).toBe(true);
+        expect(mockSign).not.toHaveBeenCalled();
+    });
+
+    test('should await asynchronous signers', async () => {
+        const transport = createTestTransport(ok);
+        const signer: Signer = {
+            algorithm: 'RSA-PSS',
+            sign: data => new Promise(resolve => setTimeout(() => resolve(`signed:${data.length}`), 5))
+        };
+        const client = new HosbyClient({ ...config, transport, signer });
+
+        await client.find('users');
+
+        expect(transport.requests[0].headers['x-signature']).toMatch(/^signed:\d+$/);
+    });
+
+    test('should not send the algorithm with the default signer', async () => {
+        const transport = createTestTransport(ok);
+        const client = new HosbyClient({ ...config, transport });
+
+        await client.find('users');
+
+        expect(transport.requests[0].headers).not.toHaveProperty('x-signature-algorithm');
+        expect(transport.requests[0].headers['x-signature']).toBe('mocked-signature');
+    });
+
+    test('should reject an invalid signer', () => {
+        expect(() => new HosbyClient({ ...config, signer: { algorithm: 'RSA-SHA256' } as any }))
+            .toThrow('Signer must implement a sign(data) method and use one of RSA-SHA256, RSA-PSS, ECDSA-P256, Ed25519');
+    });
+});
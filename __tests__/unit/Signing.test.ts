@@ -0,0 +1,177 @@
+// Mock JSEncrypt and window before importing anything
+const mockSign = jest.fn().mockReturnValue('mocked-signature');
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: mockSign
+        }))
+    };
+});
+
+// Hash bodies with the real SHA-256 implementation
+jest.unmock('crypto-js');
+
+// Mock window object
+global.window = {} as any;
+
+import { HosbyClient, buildCanonicalRequest, canonicalPath, canonicalQuery, hashBody } from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject'
+};
+
+const API_KEY = 'test-api-key-id_test-project-id_test-user-id';
+const EMPTY_HASH = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+const sentHeaders = (call = 0) => (global.fetch as jest.Mock).mock.calls[call][1].headers;
+
+describe('Canonical request', () => {
+    test('should hash bodies with SHA-256', () => {
+        expect(hashBody()).toBe(EMPTY_HASH);
+        expect(hashBody('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    test('should normalize paths', () => {
+        expect(canonicalPath('/testproject//users/./find/')).toBe('/testproject/users/find/');
+        expect(canonicalPath('/testproject/users/../orders/find')).toBe('/testproject/orders/find');
+        expect(canonicalPath('/a%7eb/c%20d/')).toBe('/a~b/c%20d/');
+        expect(canonicalPath('')).toBe('/');
+    });
+
+    test('should sort and encode query parameters uniformly', () => {
+        expect(canonicalQuery('?b=2&a=3&a=1&c')).toBe('a=1&a=3&b=2&c=');
+        expect(canonicalQuery('name=Jane+Doe&tag=a%2Fb&q=it\'s')).toBe('name=Jane%20Doe&q=it%27s&tag=a%2Fb');
+        expect(canonicalQuery('')).toBe('');
+    });
+
+    test('should build the canonical string', () => {
+        const canonical = buildCanonicalRequest({
+            method: 'patch',
+            url: 'https://api.hosby.com/testproject/users/updateOne/?id=2&age=30',
+            body: 'abc',
+            headers: { 'X-Query': '{"age":{"$gt":18}}', 'x-skip': '10' },
+            apiKey: API_KEY,
+            timestamp: '1700000000000'
+        });
+
+        expect(canonical).toBe([
+            'HOSBY-V2',
+            'PATCH',
+            '/testproject/users/updateOne/',
+            'age=30&id=2',
+            API_KEY,
+            '1700000000000',
+            '',
+            'x-limit:',
+            'x-query:{"age":{"$gt":18}}',
+            'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+        ].join('\n'));
+    });
+});
+
+describe('Request signing', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+        (global.fetch as jest.Mock).mockReset();
+        (global.fetch as jest.Mock).mockResolvedValue({
+            ok: true,
+            status: 200,
+            headers: { get: () => null },
+            json: async () => ({ success: true, status: 200, message: 'OK', data: [] })
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should sign the API key and timestamp by default', async () => {
+        const client = new HosbyClient(config);
+
+        await client.find('users', [], { limit: 5 });
+
+        expect(mockSign).toHaveBeenCalledWith(`${API_KEY}:1700000000000`, expect.any(Function), 'sha256');
+        expect(sentHeaders()).not.toHaveProperty('x-signature-version');
+    });
+
+    test('should sign the canonical request in v2', async () => {
+        const client = new HosbyClient({ ...config, signatureVersion: 'v2' });
+
+        await client.updateOne('users', { name: 'Jane' }, [{ field: 'id', value: '1' }]);
+
+        expect(mockSign).toHaveBeenCalledTimes(1);
+        expect(mockSign.mock.calls[0][0]).toBe([
+            'HOSBY-V2',
+            'PATCH',
+            '/testproject/users/updateOne/',
+            'id=1',
+            API_KEY,
+            '1700000000000',
+            '',
+            'x-limit:',
+            'x-query:',
+            hashBody(JSON.stringify({ name: 'Jane' }))
+        ].join('\n'));
+        expect(sentHeaders()).toEqual(expect.objectContaining({
+            'x-signature': 'mocked-signature',
+            'x-signature-version': 'v2',
+            'x-timestamp': '1700000000000',
+            'x-api-key': API_KEY
+        }));
+    });
+
+    test('should cover the x-limit and x-query headers in v2', async () => {
+        const client = new HosbyClient({ ...config, signatureVersion: 'v2' });
+
+        await client.find('users', [], { limit: 5, query: { age: { $gt: 18 } } });
+
+        const lines = mockSign.mock.calls[0][0].split('\n');
+        expect(lines.slice(7)).toEqual(['x-limit:5', 'x-query:{"age":{"$gt":18}}', EMPTY_HASH]);
+    });
+
+    test('should sign again when middleware changes a signed part of the request', async () => {
+        const client = new HosbyClient({ ...config, signatureVersion: 'v2' });
+        client.use(async (ctx, next) => {
+            ctx.url = `${ctx.url}?tenant=acme`;
+            return next();
+        });
+
+        await client.find('users');
+
+        expect(mockSign).toHaveBeenCalledTimes(2);
+        expect(mockSign.mock.calls[1][0].split('\n')[3]).toBe('tenant=acme');
+    });
+
+    test('should not sign again when middleware only changes unsigned headers', async () => {
+        const client = new HosbyClient({ ...config, signatureVersion: 'v2' });
+        client.use(async (ctx, next) => {
+            ctx.headers['x-tenant-id'] = 'acme';
+            return next();
+        });
+
+        await client.find('users');
+
+        expect(mockSign).toHaveBeenCalledTimes(1);
+    });
+
+    test('should reject an unknown signature version', () => {
+        expect(() => new HosbyClient({ ...config, signatureVersion: 'v3' as any }))
+            .toThrow('Invalid signatureVersion "v3". Expected "v1" or "v2"');
+    });
+
+    test('should reject a custom x-signature-version header', () => {
+        expect(() => new HosbyClient({ ...config, headers: { 'X-Signature-Version': 'v1' } }))
+            .toThrow('Header "X-Signature-Version" is set by the client and cannot be overridden');
+    });
+});
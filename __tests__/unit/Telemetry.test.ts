@@ -0,0 +1,189 @@
+// Mock JSEncrypt and window before importing anything
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature')
+        }))
+    };
+});
+
+// Mock window object
+global.window = {} as any;
+
+import { HosbyClient, Meter, Span, Tracer, formatTraceparent } from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+import { parseEndpoint } from '../../src/telemetry';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject'
+};
+
+const jsonResponse = (status: number, body: unknown) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: () => null },
+    json: async () => body
+});
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+const createTracer = () => {
+    const spans: Array<{ name: string; options: any; span: jest.Mocked<Span> }> = [];
+    const tracer: Tracer = {
+        startSpan: jest.fn((name, options) => {
+            const span: jest.Mocked<Span> = {
+                setAttribute: jest.fn(),
+                setStatus: jest.fn(),
+                recordException: jest.fn(),
+                spanContext: jest.fn(() => ({ traceId: TRACE_ID, spanId: SPAN_ID, traceFlags: 1 })),
+                end: jest.fn()
+            };
+            spans.push({ name, options, span });
+            return span;
+        })
+    };
+    return { tracer, spans };
+};
+
+const createMeter = () => {
+    const histogram = { record: jest.fn() };
+    const counter = { add: jest.fn() };
+    const meter: Meter = {
+        createHistogram: jest.fn(() => histogram),
+        createCounter: jest.fn(() => counter)
+    };
+    return { meter, histogram, counter };
+};
+
+describe('Telemetry', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (global.fetch as jest.Mock).mockReset();
+        (global.fetch as jest.Mock).mockResolvedValue(
+            jsonResponse(200, { success: true, status: 200, message: 'OK', data: [] })
+        );
+    });
+
+    test('should not add a traceparent header by default', async () => {
+        const client = new HosbyClient(config);
+
+        await client.find('users');
+
+        const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+        expect(init.headers).not.toHaveProperty('traceparent');
+    });
+
+    test('should record a client span per request', async () => {
+        const { tracer, spans } = createTracer();
+        const client = new HosbyClient({ ...config, telemetry: { tracer } });
+
+        await client.findByField('users', [{ field: 'email', value: 'a@b.c' }]);
+
+        expect(spans).toHaveLength(1);
+        const [{ name, options, span }] = spans;
+        expect(name).toBe('Hosby findByField');
+        expect(options).toEqual({
+            kind: 2,
+            attributes: { 'http.request.method': 'GET', 'hosby.table': 'users', 'hosby.endpoint': 'findByField' }
+        });
+        expect(span.setAttribute).toHaveBeenCalledWith('http.response.status_code', 200);
+        expect(span.setAttribute).toHaveBeenCalledWith('hosby.retry_count', 0);
+        expect(span.setStatus).toHaveBeenCalledWith({ code: 1 });
+        expect(span.end).toHaveBeenCalledTimes(1);
+    });
+
+    test('should propagate the trace context in a traceparent header', async () => {
+        const { tracer } = createTracer();
+        const client = new HosbyClient({ ...config, telemetry: { tracer } });
+
+        await client.bulkUpdate('users', [{ filter: { id: '1' }, update: { name: 'Jane' } }]);
+
+        const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+        expect(init.headers.traceparent).toBe(`00-${TRACE_ID}-${SPAN_ID}-01`);
+    });
+
+    test('should record failures and retries', async () => {
+        (global.fetch as jest.Mock)
+            .mockResolvedValueOnce(jsonResponse(503, { message: 'Unavailable' }))
+            .mockResolvedValueOnce(jsonResponse(503, { message: 'Unavailable' }))
+            .mockResolvedValueOnce(jsonResponse(503, { message: 'Unavailable' }));
+        const { tracer, spans } = createTracer();
+        const { meter, histogram, counter } = createMeter();
+        const client = new HosbyClient({ ...config, retryAttempts: 2, retryDelay: 0, telemetry: { tracer, meter } });
+
+        await expect(client.count('users')).rejects.toMatchObject({ status: 503 });
+
+        expect(spans).toHaveLength(1);
+        const { span } = spans[0];
+        expect(span.setAttribute).toHaveBeenCalledWith('http.response.status_code', 503);
+        expect(span.setAttribute).toHaveBeenCalledWith('hosby.retry_count', 2);
+        expect(span.setAttribute).toHaveBeenCalledWith('error.type', 'HosbyHttpError');
+        expect(span.recordException).toHaveBeenCalledWith(expect.objectContaining({ status: 503 }));
+        expect(span.setStatus).toHaveBeenCalledWith({ code: 2, message: 'Unavailable' });
+
+        const attributes = {
+            'http.request.method': 'GET',
+            'hosby.table': 'users',
+            'hosby.endpoint': 'count',
+            'http.response.status_code': 503
+        };
+        expect(histogram.record).toHaveBeenCalledWith(expect.any(Number), attributes);
+        expect(counter.add).toHaveBeenCalledWith(2, attributes);
+    });
+
+    test('should record the latency of each request', async () => {
+        const { meter, histogram, counter } = createMeter();
+        const client = new HosbyClient({ ...config, telemetry: { meter } });
+
+        await client.insertOne('users', { name: 'Jane' });
+
+        expect(meter.createHistogram).toHaveBeenCalledWith('hosby.client.request.duration', expect.objectContaining({ unit: 'ms' }));
+        expect(histogram.record).toHaveBeenCalledWith(expect.any(Number), {
+            'http.request.method': 'POST',
+            'hosby.table': 'users',
+            'hosby.endpoint': 'insertOne',
+            'http.response.status_code': 200
+        });
+        expect(counter.add).not.toHaveBeenCalled();
+    });
+
+    test('should not fail requests when the tracer throws', async () => {
+        const { tracer, spans } = createTracer();
+        const client = new HosbyClient({ ...config, telemetry: { tracer } });
+        const request = client.find('users');
+        spans[0].span.end.mockImplementation(() => {
+            throw new Error('Exporter failure');
+        });
+
+        await expect(request).resolves.toMatchObject({ success: true });
+    });
+
+    test('should format traceparent headers and ignore invalid span contexts', () => {
+        expect(formatTraceparent({ traceId: TRACE_ID, spanId: SPAN_ID, traceFlags: 0 })).toBe(`00-${TRACE_ID}-${SPAN_ID}-00`);
+        expect(formatTraceparent({ traceId: '0'.repeat(32), spanId: '0'.repeat(16), traceFlags: 0 })).toBeUndefined();
+        expect(formatTraceparent({ traceId: 'invalid', spanId: SPAN_ID, traceFlags: 1 })).toBeUndefined();
+    });
+
+    test('should parse the table and endpoint of a path', () => {
+        expect(parseEndpoint('users/findByField')).toEqual({ table: 'users', endpoint: 'findByField' });
+        expect(parseEndpoint('users/email/login')).toEqual({ table: 'users', endpoint: 'login' });
+        expect(parseEndpoint('api/secure/csrf-token')).toEqual({ endpoint: 'csrf-token' });
+    });
+
+    test('should reject invalid tracers and meters', () => {
+        expect(() => new HosbyClient({ ...config, telemetry: { tracer: {} as Tracer } }))
+            .toThrow('Tracer must implement a startSpan(name, options) method');
+        expect(() => new HosbyClient({ ...config, telemetry: { meter: {} as Meter } }))
+            .toThrow('Meter must implement createHistogram(name, options) and createCounter(name, options) methods');
+    });
+});
@@ -0,0 +1,112 @@
+// Mock JSEncrypt and window before importing anything
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature')
+        }))
+    };
+});
+
+// Mock window object
+global.window = {} as any;
+
+import { HosbyClient, HosbyAbortError, HosbyTimeoutError } from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject'
+};
+
+const successResponse = {
+    ok: true,
+    status: 200,
+    headers: {
+        get: jest.fn().mockReturnValue(null)
+    },
+    json: async () => ({ success: true, status: 200, message: 'OK', data: [] })
+};
+
+// Fetch that never settles, simulating a hung endpoint
+const hangingFetch = () => new Promise(() => { });
+
+describe('Request timeouts and cancellation', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (global.fetch as jest.Mock).mockReset();
+    });
+
+    test('should reject with HosbyTimeoutError when the global timeout elapses', async () => {
+        const client = new HosbyClient({ ...config, timeout: 20 });
+        (global.fetch as jest.Mock).mockImplementationOnce(hangingFetch);
+
+        const error = await client.find('users').catch(e => e);
+
+        expect(error).toBeInstanceOf(HosbyTimeoutError);
+        expect(error.status).toBe(408);
+        expect(error.timeout).toBe(20);
+        expect(error.message).toBe('Request timed out');
+    });
+
+    test('should let a per-call timeout override the global timeout', async () => {
+        const client = new HosbyClient({ ...config, timeout: 60000 });
+        (global.fetch as jest.Mock).mockImplementationOnce(hangingFetch);
+
+        await expect(client.count('users', [], { timeout: 10 }))
+            .rejects.toBeInstanceOf(HosbyTimeoutError);
+    });
+
+    test('should pass a signal to fetch only when a timeout or signal is set', async () => {
+        const client = new HosbyClient(config);
+        (global.fetch as jest.Mock).mockResolvedValue(successResponse);
+
+        await client.find('users');
+        expect((global.fetch as jest.Mock).mock.calls[0][1].signal).toBeUndefined();
+
+        await client.find('users', [], {}, { timeout: 1000 });
+        expect((global.fetch as jest.Mock).mock.calls[1][1].signal).toBeDefined();
+    });
+
+    test('should reject with HosbyAbortError when the signal is already aborted', async () => {
+        const client = new HosbyClient(config);
+
+        await expect(client.insertOne('users', { name: 'Jane' }, {}, { signal: AbortSignal.abort() }))
+            .rejects.toBeInstanceOf(HosbyAbortError);
+        expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    test('should reject with HosbyAbortError when the signal aborts mid-flight', async () => {
+        const client = new HosbyClient(config);
+        (global.fetch as jest.Mock).mockImplementationOnce(hangingFetch);
+
+        const error = await client.login('auth-id', 'users', { email: 'a@b.c' }, {
+            signal: AbortSignal.timeout(10)
+        }).catch(e => e);
+
+        expect(error).toBeInstanceOf(HosbyAbortError);
+        expect(error).not.toBeInstanceOf(HosbyTimeoutError);
+        expect(error.status).toBe(499);
+    });
+
+    test('should resolve normally when the response arrives before the timeout', async () => {
+        const client = new HosbyClient({ ...config, timeout: 1000 });
+        (global.fetch as jest.Mock).mockResolvedValueOnce(successResponse);
+
+        const response = await client.deleteOne('users', [{ field: 'id', value: '1' }]);
+
+        expect(response.success).toBe(true);
+    });
+
+    test('should reject invalid timeout configuration', () => {
+        expect(() => new HosbyClient({ ...config, timeout: -1 }))
+            .toThrow('Timeout must be a non-negative number of milliseconds');
+    });
+});
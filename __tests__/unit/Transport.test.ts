@@ -0,0 +1,215 @@
+// Mock JSEncrypt and window before importing anything
+jest.mock('jsencrypt', () => {
+    return {
+        __esModule: true,
+        default: jest.fn().mockImplementation(() => ({
+            setPrivateKey: jest.fn(),
+            sign: jest.fn().mockReturnValue('mocked-signature')
+        }))
+    };
+});
+
+// Mock window object
+global.window = {} as any;
+
+import * as crypto from 'crypto';
+import * as tls from 'tls';
+import {
+    HosbyCertificateError,
+    HosbyClient,
+    HosbyNetworkError,
+    TlsCertificateLike,
+    createFetchTransport,
+    createPinnedTransport,
+    createTestTransport,
+    createUndiciTransport
+} from '../../src';
+import { SecureClientConfig } from '../../src/clients/BaseClient';
+
+global.fetch = jest.fn();
+
+const config: SecureClientConfig = {
+    baseURL: 'https://api.hosby.com',
+    privateKey: 'test-private-key',
+    projectId: 'test-project-id',
+    userId: 'test-user-id',
+    apiKeyId: 'test-api-key-id',
+    projectName: 'testproject'
+};
+
+const okResponse = {
+    ok: true,
+    status: 200,
+    headers: { get: () => null },
+    json: async () => ({ success: true, status: 200, message: 'OK', data: [] })
+};
+
+describe('Transports', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (global.fetch as jest.Mock).mockReset();
+    });
+
+    test('should send requests through an in-process test transport', async () => {
+        const transport = createTestTransport(({ url, body }) => {
+            if (url.pathname === '/api/secure/csrf-token/') {
+                return { body: { success: true, data: { token: 'test-csrf' } } };
+            }
+            return { status: 201, body: { success: true, status: 201, message: 'Created', data: body } };
+        });
+        const client = new HosbyClient({ ...config, transport });
+
+        await client.init();
+        const response = await client.insertOne('users', { name: 'Jane' });
+
+        expect(response).toEqual({ success: true, status: 201, message: 'Created', data: { name: 'Jane' } });
+        expect(global.fetch).not.toHaveBeenCalled();
+        expect(transport.requests).toHaveLength(2);
+        expect(transport.requests[1]).toMatchObject({
+            method: 'POST',
+            headers: expect.objectContaining({
+                'X-CSRF-Token-Hosby': 'test-csrf',
+                'x-api-key': 'test-api-key-id_test-project-id_test-user-id'
+            }),
+            body: { name: 'Jane' }
+        });
+        expect(transport.requests[1].url.pathname).toBe('/testproject/users/insertOne/');
+    });
+
+    test('should surface error statuses from the test transport', async () => {
+        const transport = createTestTransport(() => ({
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+            body: { success: false, status: 404, message: 'User not found' }
+        }));
+        const client = new HosbyClient({ ...config, transport });
+
+        await expect(client.findById('users', [{ field: 'id', value: '1' }]))
+            .rejects.toMatchObject({ status: 404, message: 'User not found' });
+    });
+
+    test('should use a custom fetch implementation', async () => {
+        const customFetch = jest.fn().mockResolvedValue(okResponse);
+        const client = new HosbyClient({ ...config, transport: createFetchTransport(customFetch) });
+
+        await client.find('users');
+
+        expect(customFetch).toHaveBeenCalledWith(
+            'https://api.hosby.com/testproject/users/find/',
+            expect.objectContaining({ method: 'GET' })
+        );
+        expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    test('should pass the undici dispatcher with every request', async () => {
+        const dispatcher = { dispatch: jest.fn() };
+        const undiciFetch = jest.fn().mockResolvedValue(okResponse);
+        const client = new HosbyClient({
+            ...config,
+            transport: createUndiciTransport({ dispatcher, fetch: undiciFetch })
+        });
+
+        await client.count('users');
+
+        expect(undiciFetch.mock.calls[0][1].dispatcher).toBe(dispatcher);
+        expect(() => createUndiciTransport({} as any)).toThrow('An undici dispatcher is required');
+    });
+
+    test('should fail clearly when no fetch implementation is available', async () => {
+        const originalFetch = global.fetch;
+        // @ts-ignore - Simulate a runtime without fetch
+        delete global.fetch;
+
+        try {
+            const client = new HosbyClient(config);
+            await expect(client.find('users')).rejects.toMatchObject({
+                message: expect.stringContaining('No fetch implementation available')
+            });
+        } finally {
+            global.fetch = originalFetch;
+        }
+    });
+
+    test('should reject transports without a send method', () => {
+        expect(() => new HosbyClient({ ...config, transport: {} as any }))
+            .toThrow('Transport must implement a send(url, init) method');
+    });
+});
+
+describe('Certificate pinning', () => {
+    const spki = (key: crypto.KeyObject): Buffer => key.export({ type: 'spki', format: 'der' });
+    const server = spki(crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }).publicKey);
+    const backup = spki(crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }).publicKey);
+    const attacker = spki(crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }).publicKey);
+    const pin = (der: Buffer): string => crypto.createHash('sha256').update(der).digest('base64');
+
+    const certificate = (host: string, pubkey: Buffer) => ({ subject: { CN: host }, subjectaltname: `DNS:${host}`, pubkey });
+
+    /**
+     * Agent capturing its connect options, and a fetch that checks the certificate the server presents like undici
+     */
+    const connect = (presented: Buffer, certificateHost?: string) => {
+        const agents: { connect: { checkServerIdentity: (hostname: string, cert: TlsCertificateLike) => Error | undefined } }[] = [];
+        class Agent {
+            constructor(options: typeof agents[number]) {
+                agents.push(options);
+            }
+        }
+        const fetch = jest.fn(async (url: string) => {
+            const { hostname } = new URL(url);
+            const error = agents[0].connect.checkServerIdentity(hostname, certificate(certificateHost ?? hostname, presented) as TlsCertificateLike);
+            if (error) {
+                throw Object.assign(new TypeError('fetch failed'), { cause: error });
+            }
+            return okResponse;
+        });
+        return { Agent, fetch };
+    };
+
+    test('should accept servers presenting a pinned public key', async () => {
+        const { Agent, fetch } = connect(backup);
+        const transport = createPinnedTransport({ pins: [pin(server), `sha256/${pin(backup)}`], Agent, tls, crypto, fetch });
+
+        await expect(new HosbyClient({ ...config, transport }).find('users')).resolves.toMatchObject({ success: true });
+    });
+
+    test('should reject servers presenting another public key without retrying', async () => {
+        const { Agent, fetch } = connect(attacker);
+        const transport = createPinnedTransport({ pins: [pin(server)], hosts: ['api.hosby.com'], Agent, tls, crypto, fetch });
+        const client = new HosbyClient({ ...config, transport, retryAttempts: 2, retryDelay: 0 });
+
+        const error = await client.find('users').catch((error: unknown) => error) as HosbyCertificateError;
+
+        expect(error).toBeInstanceOf(HosbyCertificateError);
+        expect(error.message).toBe('Certificate of api.hosby.com does not match any pinned public key');
+        expect(error.fingerprint).toBe(`SHA256:${pin(attacker).replace(/=+$/, '')}`);
+        expect(error.status).toBe(495);
+        expect(error.path).toBe('users/find');
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should only pin the configured hosts and keep the hostname validation', async () => {
+        const { Agent, fetch } = connect(attacker);
+        const transport = createPinnedTransport({ pins: [pin(server)], hosts: ['.hosby.com'], Agent, tls, crypto, fetch });
+
+        await expect(transport.send('https://cdn.example.com/file', {})).resolves.toBe(okResponse);
+        await expect(transport.send('https://eu.api.hosby.com/file', {})).rejects.toMatchObject({ cause: expect.any(HosbyCertificateError) });
+
+
+        const impostor = connect(server, 'evil.example.com');
+        const validated = createPinnedTransport({ pins: [pin(server)], Agent: impostor.Agent, tls, crypto, fetch: impostor.fetch });
+        const error = await new HosbyClient({ ...config, transport: validated }).find('users').catch((error: unknown) => error) as HosbyNetworkError;
+        expect(error).toBeInstanceOf(HosbyNetworkError);
+        expect((error.cause as { cause?: Error }).cause?.message).toContain("Hostname/IP does not match certificate's altnames");
+    });
+
+    test('should reject invalid pins and missing modules', () => {
+        const { Agent } = connect(server);
+
+        expect(() => createPinnedTransport({ pins: [], Agent, tls, crypto }))
+            .toThrow('Certificate pins must be base64 SHA-256 hashes of the SubjectPublicKeyInfo of the certificates');
+        expect(() => createPinnedTransport({ pins: ['not-a-pin'], Agent, tls, crypto })).toThrow('Certificate pins must be');
+        expect(() => createPinnedTransport({ pins: [pin(server)], Agent, tls } as any))
+            .toThrow('The undici Agent class and the Node.js tls and crypto modules are required to pin certificates');
+    });
+});
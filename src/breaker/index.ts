@@ -0,0 +1,179 @@
+import { HosbyAbortError, HosbyCircuitOpenError, HosbyError, HosbyErrorOptions, HosbyNetworkError, HosbyTimeoutError } from "../errors";
+
+/**
+ * State of a circuit breaker:
+ * - 'closed': requests are sent normally
+ * - 'open': requests fail fast with a `HosbyCircuitOpenError`
+ * - 'half-open': a single trial request is sent to probe the backend
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker options
+ */
+export interface CircuitBreakerConfig {
+    /** Number of consecutive failures opening the circuit. Defaults to 5 */
+    failureThreshold?: number;
+    /** Time in milliseconds the circuit stays open before letting a trial request through. Defaults to 30000 */
+    cooldown?: number;
+    /** Number of consecutive successful trial requests closing the circuit. Defaults to 1 */
+    successThreshold?: number;
+}
+
+/**
+ * Payload of a circuit state change
+ */
+export interface CircuitChange {
+    /** The new state */
+    readonly state: CircuitState;
+    /** The previous state */
+    readonly previous: CircuitState;
+}
+
+/**
+ * Checks whether a failed request means that the backend is unhealthy
+ * @param error The error thrown by the request
+ * @returns true for network errors, timeouts and 5xx responses, false when the backend answered,
+ * undefined when the request was aborted or failed on the client side (signing, credentials, middleware, ...)
+ */
+const isBackendFailure = (error: unknown): boolean | undefined => {
+    if (error instanceof HosbyAbortError || !(error instanceof HosbyError)) {
+        return undefined;
+    }
+    if (error instanceof HosbyNetworkError || error instanceof HosbyTimeoutError) {
+        return true;
+    }
+    return error.status >= 500;
+};
+
+/**
+ * Stops sending requests to a failing backend.
+ * The circuit opens after `failureThreshold` consecutive failures, lets a trial request
+ * through once `cooldown` has elapsed, and closes again once trial requests succeed.
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({ failureThreshold: 3, cooldown: 10000 });
+ * const probe = breaker.acquire();
+ * try {
+ *   const response = await send();
+ *   breaker.record(undefined, probe);
+ * } catch (error) {
+ *   breaker.record(error, probe);
+ *   throw error;
+ * }
+ * ```
+ */
+export class CircuitBreaker {
+    private readonly failureThreshold: number;
+    private readonly cooldown: number;
+    private readonly successThreshold: number;
+    private current: CircuitState = 'closed';
+    private failures = 0;
+    private successes = 0;
+    private openedAt = 0;
+    private probing = false;
+
+    /**
+     * Creates a new CircuitBreaker instance
+     * @param config - Circuit breaker options
+     * @param onChange - Called whenever the state changes
+     * @throws {Error} When the thresholds or the cooldown are invalid
+     */
+    constructor(config: CircuitBreakerConfig = {}, private readonly onChange?: (change: CircuitChange) => void) {
+        const { failureThreshold = 5, cooldown = 30000, successThreshold = 1 } = config;
+        if (!Number.isInteger(failureThreshold) || failureThreshold < 1
+            || !Number.isInteger(successThreshold) || successThreshold < 1) {
+            throw new Error('Circuit breaker thresholds must be positive integers');
+        }
+        if (typeof cooldown !== 'number' || cooldown < 0) {
+            throw new Error('Circuit breaker cooldown must be a non-negative number of milliseconds');
+        }
+        this.failureThreshold = failureThreshold;
+        this.cooldown = cooldown;
+        this.successThreshold = successThreshold;
+    }
+
+    /**
+     * Current state of the circuit.
+     * An open circuit moves to half-open on the first request after the cooldown.
+     */
+    public get state(): CircuitState {
+        return this.current;
+    }
+
+    /**
+     * Lets a request through, or rejects it while the circuit is open
+     * @param details - Request details attached to the error
+     * @returns true if the request is the trial request of a half-open circuit
+     * @throws HosbyCircuitOpenError when the circuit is open, or half-open with a trial request in flight
+     */
+    public acquire(details?: HosbyErrorOptions): boolean {
+        if (this.current === 'open') {
+            const remaining = this.openedAt + this.cooldown - Date.now();
+            if (remaining > 0) {
+                throw new HosbyCircuitOpenError(remaining, undefined, details);
+            }
+            this.transition('half-open');
+        }
+        if (this.current === 'half-open') {
+            if (this.probing) {
+                throw new HosbyCircuitOpenError(0, 'Circuit breaker is half-open, a trial request is in flight', details);
+            }
+            this.probing = true;
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Records the outcome of a request let through by {@link CircuitBreaker.acquire}
+     * @param error - The error thrown by the request, undefined on success
+     * @param probe - The value returned by {@link CircuitBreaker.acquire}
+     */
+    public record(error: unknown, probe = false): void {
+        const failed = error === undefined ? false : isBackendFailure(error);
+
+        if (probe) {
+            this.probing = false;
+            if (failed === true) {
+                this.open();
+            } else if (failed === false && ++this.successes >= this.successThreshold) {
+                this.failures = 0;
+                this.transition('closed');
+            }
+            return;
+        }
+
+        if (this.current !== 'closed' || failed === undefined) {
+            return;
+        }
+        if (!failed) {
+            this.failures = 0;
+        } else if (++this.failures >= this.failureThreshold) {
+            this.open();
+        }
+    }
+
+    /**
+     * Opens the circuit and starts the cooldown
+     * @private
+     */
+    private open(): void {
+        this.openedAt = Date.now();
+        this.transition('open');
+    }
+
+    /**
+     * Moves to a new state and reports the change
+     * @param state The new state
+     * @private
+     */
+    private transition(state: CircuitState): void {
+        const previous = this.current;
+        this.current = state;
+        if (previous !== state) {
+            this.successes = 0;
+            this.onChange?.({ state, previous });
+        }
+    }
+}
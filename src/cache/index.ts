@@ -0,0 +1,281 @@
+import { ApiResponse, QueryFilter, QueryOptions } from "../types";
+
+/**
+ * Cached response stored by a {@link CacheStorage}
+ */
+export interface CacheEntry {
+    /** The cached response */
+    readonly value: ApiResponse<unknown>;
+    /** Expiration time, in milliseconds since the epoch */
+    readonly expiresAt: number;
+}
+
+/**
+ * Storage backend of the response cache.
+ * Methods may be synchronous or return promises, so entries can live in memory,
+ * in `localStorage` or in a remote store.
+ * @example
+ * ```typescript
+ * const storage: CacheStorage = {
+ *   get: (key) => JSON.parse(localStorage.getItem(key) ?? 'null') ?? undefined,
+ *   set: (key, entry) => localStorage.setItem(key, JSON.stringify(entry)),
+ *   delete: (key) => localStorage.removeItem(key),
+ *   keys: () => Object.keys(localStorage)
+ * };
+ * ```
+ */
+export interface CacheStorage {
+    /** Reads an entry, or undefined if there is none */
+    get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+    /** Writes an entry */
+    set(key: string, entry: CacheEntry): void | Promise<void>;
+    /** Removes an entry */
+    delete(key: string): void | Promise<void>;
+    /** Lists the keys of the stored entries */
+    keys(): Iterable<string> | Promise<Iterable<string>>;
+}
+
+/**
+ * Response cache options
+ */
+export interface CacheConfig {
+    /**
+     * Time to live of cached responses in milliseconds.
+     * Defaults to 60000 (1 minute).
+     */
+    ttl?: number;
+
+    /**
+     * Storage backend of the cache.
+     * Defaults to an in-memory storage created with {@link createMemoryCacheStorage}.
+     */
+    storage?: CacheStorage;
+
+    /**
+     * Maximum number of entries of the default in-memory storage.
+     * Defaults to 1000. Ignored with a custom `storage`.
+     */
+    maxEntries?: number;
+}
+
+/**
+ * Options of {@link createMemoryCacheStorage}
+ */
+export interface MemoryCacheStorageOptions {
+    /**
+     * Maximum number of entries. Once it is reached, expired entries are pruned,
+     * then the least recently used ones are evicted. Defaults to 1000.
+     */
+    maxEntries?: number;
+}
+
+/**
+ * Creates a cache storage that keeps entries in memory
+ * @param options The maximum number of entries
+ * @returns An in-memory cache storage
+ * @throws {Error} When maxEntries is not a positive integer
+ */
+export const createMemoryCacheStorage = (options: MemoryCacheStorageOptions = {}): CacheStorage => {
+    const { maxEntries = 1000 } = options;
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+        throw new Error('Cache maxEntries must be a positive integer');
+    }
+    // Maps iterate in insertion order, so re-inserting an entry marks it as the most recently used
+    const entries = new Map<string, CacheEntry>();
+    return {
+        get: (key) => {
+            const entry = entries.get(key);
+            if (entry) {
+                entries.delete(key);
+                entries.set(key, entry);
+            }
+            return entry;
+        },
+        set: (key, entry) => {
+            entries.delete(key);
+            if (entries.size >= maxEntries) {
+                const now = Date.now();
+                entries.forEach((stored, storedKey) => {
+                    if (stored.expiresAt <= now) {
+                        entries.delete(storedKey);
+                    }
+                });
+            }
+            for (const storedKey of entries.keys()) {
+                if (entries.size < maxEntries) {
+                    break;
+                }
+                entries.delete(storedKey);
+            }
+            entries.set(key, entry);
+        },
+        delete: (key) => {
+            entries.delete(key);
+        },
+        keys: () => Array.from(entries.keys())
+    };
+};
+
+/**
+ * Caches read responses per table, filters and query options
+ * @example
+ * ```typescript
+ * const cache = new ResponseCache({ ttl: 30000 });
+ * const version = cache.version('users');
+ * await cache.set('users', 'users/find', filters, options, response, version);
+ * await cache.get('users', 'users/find', filters, options);
+ * await cache.invalidate('users');
+ * ```
+ */
+export class ResponseCache {
+    private readonly ttl: number;
+    private readonly storage: CacheStorage;
+    private readonly versions = new Map<string, number>();
+    private generation = 0;
+
+    /**
+     * Creates a new ResponseCache instance
+     * @param config - Cache options
+     * @throws {Error} When the TTL is not a positive number or the storage is invalid
+     */
+    constructor(config: CacheConfig = {}) {
+        const { ttl = 60000, storage, maxEntries } = config;
+        if (typeof ttl !== 'number' || !(ttl > 0)) {
+            throw new Error('Cache ttl must be a positive number of milliseconds');
+        }
+        if (storage !== undefined && ['get', 'set', 'delete', 'keys'].some(
+            method => typeof (storage as unknown as Record<string, unknown>)?.[method] !== 'function'
+        )) {
+            throw new Error('Cache storage must implement get, set, delete and keys methods');
+        }
+        this.ttl = ttl;
+        this.storage = storage ?? createMemoryCacheStorage({ maxEntries });
+    }
+
+    /**
+     * Returns the current version of a table's entries.
+     * Pass it to {@link ResponseCache.set} so that responses read before an invalidation are not stored.
+     * @param table - Name of the table/collection
+     * @returns An opaque version string
+     */
+    public version(table: string): string {
+        return `${this.generation}:${this.versions.get(table) ?? 0}`;
+    }
+
+    /**
+     * Reads a cached response
+     * @param table - Name of the table/collection
+     * @param path - Request path
+     * @param queryFilters - Query filters of the request
+     * @param options - Query options of the request
+     * @param headers - Custom headers of the request, such as a tenant header that changes the response
+     * @returns The cached response, or undefined if there is none or it expired
+     */
+    public async get<T>(
+        table: string,
+        path: string,
+        queryFilters?: QueryFilter[],
+        options?: QueryOptions,
+        headers?: Readonly<Record<string, string>>
+    ): Promise<ApiResponse<T> | undefined> {
+        const key = this.getKey(table, path, queryFilters, options, headers);
+        const entry = await this.storage.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        if (entry.expiresAt <= Date.now()) {
+            await this.storage.delete(key);
+            return undefined;
+        }
+        return entry.value as ApiResponse<T>;
+    }
+
+    /**
+     * Stores a response, unless the table was invalidated since `version` was read
+     * @param table - Name of the table/collection
+     * @param path - Request path
+     * @param queryFilters - Query filters of the request
+     * @param options - Query options of the request
+     * @param value - The response to cache
+     * @param version - Table version read with {@link ResponseCache.version} before sending the request
+     * @param headers - Custom headers of the request
+     */
+    public async set<T>(
+        table: string,
+        path: string,
+        queryFilters: QueryFilter[] | undefined,
+        options: QueryOptions | undefined,
+        value: ApiResponse<T>,
+        version: string,
+        headers?: Readonly<Record<string, string>>
+    ): Promise<void> {
+        if (version !== this.version(table)) {
+            return;
+        }
+        await this.storage.set(this.getKey(table, path, queryFilters, options, headers), {
+            value,
+            expiresAt: Date.now() + this.ttl
+        });
+    }
+
+    /**
+     * Removes every cached response of a table
+     * @param table - Name of the table/collection
+     */
+    public async invalidate(table: string): Promise<void> {
+        this.versions.set(table, (this.versions.get(table) ?? 0) + 1);
+        const prefix = this.getPrefix(table);
+        await this.deleteKeys(key => key.startsWith(prefix));
+    }
+
+    /**
+     * Removes every cached response
+     */
+    public async clear(): Promise<void> {
+        this.generation++;
+        await this.deleteKeys(key => key.startsWith('hosby:'));
+    }
+
+    /**
+     * Deletes the stored keys matching a predicate
+     * @param predicate Selects the keys to delete
+     * @private
+     */
+    private async deleteKeys(predicate: (key: string) => boolean): Promise<void> {
+        const keys = Array.from(await this.storage.keys()).filter(predicate);
+        await Promise.all(keys.map(key => this.storage.delete(key)));
+    }
+
+    /**
+     * Builds the prefix shared by every key of a table
+     * @param table Name of the table/collection
+     * @returns The key prefix
+     * @private
+     */
+    private getPrefix(table: string): string {
+        return `hosby:${encodeURIComponent(table)}:`;
+    }
+
+    /**
+     * Builds the key of a cached response
+     * @param table Name of the table/collection
+     * @param path Request path
+     * @param queryFilters Query filters of the request
+     * @param options Query options of the request
+     * @param headers Custom headers of the request, matched case-insensitively
+     * @returns The cache key
+     * @private
+     */
+    private getKey(
+        table: string,
+        path: string,
+        queryFilters?: QueryFilter[],
+        options?: QueryOptions,
+        headers?: Readonly<Record<string, string>>
+    ): string {
+        const headerEntries = Object.entries(headers ?? {})
+            .map(([name, value]) => [name.toLowerCase(), value])
+            .sort(([a], [b]) => a.localeCompare(b));
+        return this.getPrefix(table) + JSON.stringify([path, queryFilters ?? [], options ?? {}, headerEntries]);
+    }
+}
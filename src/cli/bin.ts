@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+import * as fs from 'node:fs/promises';
+import { runCli } from './index';
+
+runCli(process.argv.slice(2), {
+    fs,
+    stdout: text => process.stdout.write(`${text}\n`),
+    stderr: text => process.stderr.write(`${text}\n`)
+}).then(code => {
+    process.exitCode = code;
+});
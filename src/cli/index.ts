@@ -0,0 +1,415 @@
+import { FileReaderLike } from "../credentials";
+import { SIGNATURE_ALGORITHMS, SignatureAlgorithm, SubtleCryptoLike, WEB_CRYPTO_PARAMS, createWebCryptoSigner } from "../signer";
+import { KeyInfo, MIN_RSA_KEY_SIZE, inspectKey, toPkcs8 } from "../utils/keyInfo";
+import { generateNonce } from "../utils/nonce";
+import { SIGNATURE_VERSIONS, SignatureVersion, buildSigningPayload } from "../utils/signing";
+
+/**
+ * Subset of the WebCrypto `SubtleCrypto` used by the `hosby keys` command
+ */
+export interface KeyToolCryptoLike extends SubtleCryptoLike {
+    generateKey(
+        algorithm: RsaHashedKeyGenParams | EcKeyGenParams | Algorithm,
+        extractable: boolean,
+        keyUsages: KeyUsage[]
+    ): Promise<CryptoKeyPair | CryptoKey>;
+    exportKey(format: 'pkcs8' | 'spki', key: CryptoKey): Promise<ArrayBuffer>;
+    importKey(
+        format: 'pkcs8' | 'spki',
+        keyData: Uint8Array,
+        algorithm: RsaHashedImportParams | EcKeyImportParams | Algorithm,
+        extractable: boolean,
+        keyUsages: KeyUsage[]
+    ): Promise<CryptoKey>;
+    verify(
+        algorithm: AlgorithmIdentifier | RsaPssParams | EcdsaParams,
+        key: CryptoKey,
+        signature: Uint8Array,
+        data: Uint8Array
+    ): Promise<boolean>;
+}
+
+/**
+ * Environment of the command line, injected so that the commands can run outside of a terminal
+ */
+export interface CliEnvironment {
+    /** Writes a line to the standard output */
+    stdout(text: string): void;
+    /** Writes a line to the standard error */
+    stderr(text: string): void;
+    /** Reads the files passed with `--file`. Without it, keys must be passed inline */
+    fs?: FileReaderLike;
+    /** WebCrypto implementation. Defaults to `globalThis.crypto.subtle` */
+    subtle?: KeyToolCryptoLike;
+    /** Current time in milliseconds, used as the signature timestamp. Defaults to `Date.now` */
+    now?: () => number;
+}
+
+/**
+ * Parsed command line arguments
+ */
+interface ParsedArgs {
+    readonly positionals: string[];
+    readonly options: Record<string, string | true>;
+}
+
+/** Options start with `--` and a letter, so that PEM keys are read as positional arguments */
+const OPTION_PATTERN = /^--[a-z]/i;
+
+/** Options that take no value */
+const FLAGS = ['json', 'nonce', 'help'];
+
+const USAGE = `Usage: hosby keys <command> [options]
+
+Commands:
+  generate      Generates a key pair and prints its sk_ and pk_ keys and its fingerprint
+    --algorithm <name>          ${SIGNATURE_ALGORITHMS.join(', ')}. Defaults to RSA-SHA256
+    --bits <size>               Modulus length of RSA keys, at least ${MIN_RSA_KEY_SIZE}. Defaults to ${MIN_RSA_KEY_SIZE}
+
+  fingerprint   Prints the format, algorithm, size and fingerprint of a key
+    <key> | --file <path>       sk_ or pk_ key, PEM or base64 DER
+
+  sign          Signs a test request the way the client does and verifies the signature
+    <key> | --file <path>       Private key, as sk_ key, PEM or base64 DER
+    --api-key-id <id>           Identifier of the API key (required)
+    --project-id <id>           Identifier of the project (required)
+    --user-id <id>              Identifier of the user (required)
+    --public-key <key>          Public key registered for the API key. Defaults to the public key derived from the
+                                private key, required for Ed25519 keys without an embedded public key
+    --algorithm <name>          Signature algorithm. Defaults to the algorithm of the key
+    --signature-version <v>     ${SIGNATURE_VERSIONS.join(' or ')}. Defaults to v1
+    --nonce                     Adds a nonce, like the nonce option of the client
+    --method <method>           Method of the request signed with v2. Defaults to GET
+    --url <url>                 URL of the request signed with v2. Defaults to https://api.hosby.com/project/users/find/
+    --body <json>               Body of the request signed with v2
+    --timestamp <ms>            Timestamp of the signature. Defaults to now
+
+Options:
+  --json                        Prints JSON
+  --help                        Prints this help`;
+
+/**
+ * Parses `--name value` options, `--flag` options and positional arguments
+ * @param args The arguments
+ * @returns The parsed arguments
+ * @throws {Error} When an option is missing its value
+ */
+const parseArgs = (args: readonly string[]): ParsedArgs => {
+    const positionals: string[] = [];
+    const options: Record<string, string | true> = {};
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (!OPTION_PATTERN.test(arg)) {
+            positionals.push(arg);
+            continue;
+        }
+        const separator = arg.indexOf('=');
+        const name = separator === -1 ? arg.slice(2) : arg.slice(2, separator);
+        const inline = separator === -1 ? undefined : arg.slice(separator + 1);
+        if (FLAGS.includes(name)) {
+            options[name] = true;
+        } else if (inline !== undefined) {
+            options[name] = inline;
+        } else if (i + 1 < args.length && !OPTION_PATTERN.test(args[i + 1])) {
+            options[name] = args[++i];
+        } else {
+            throw new Error(`Option --${name} requires a value`);
+        }
+    }
+    return { positionals, options };
+};
+
+/**
+ * Reads a string option
+ * @param args The parsed arguments
+ * @param name Name of the option
+ * @returns The value, or undefined when the option is absent
+ */
+const option = (args: ParsedArgs, name: string): string | undefined => {
+    const value = args.options[name];
+    return typeof value === 'string' ? value : undefined;
+};
+
+/**
+ * Reads a required string option
+ * @param args The parsed arguments
+ * @param name Name of the option
+ * @returns The value
+ * @throws {Error} When the option is absent
+ */
+const requireOption = (args: ParsedArgs, name: string): string => {
+    const value = option(args, name);
+    if (!value) {
+        throw new Error(`Option --${name} is required`);
+    }
+    return value;
+};
+
+/**
+ * Reads a signature algorithm option
+ * @param args The parsed arguments
+ * @returns The algorithm, or undefined when the option is absent
+ * @throws {Error} When the algorithm is not supported
+ */
+const algorithmOption = (args: ParsedArgs): SignatureAlgorithm | undefined => {
+    const algorithm = option(args, 'algorithm');
+    if (algorithm !== undefined && !SIGNATURE_ALGORITHMS.includes(algorithm as SignatureAlgorithm)) {
+        throw new Error(`Unsupported signature algorithm "${algorithm}". Expected one of ${SIGNATURE_ALGORITHMS.join(', ')}`);
+    }
+    return algorithm as SignatureAlgorithm | undefined;
+};
+
+/**
+ * Reads the key passed as the first positional argument or with `--file`
+ * @param args The parsed arguments
+ * @param env The environment
+ * @returns The key
+ * @throws {Error} When no key is passed, or the file cannot be read
+ */
+const readKeyArgument = async (args: ParsedArgs, env: CliEnvironment): Promise<string> => {
+    const path = option(args, 'file');
+    if (path === undefined) {
+        if (!args.positionals[0]) {
+            throw new Error('A key is required, pass it as an argument or with --file <path>');
+        }
+        return args.positionals[0];
+    }
+    if (typeof env.fs?.readFile !== 'function') {
+        throw new Error('Reading keys from files is not available in this environment');
+    }
+    return env.fs.readFile(path, 'utf8');
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+};
+
+/** Decodes base64, or the base64 body of a PEM */
+const fromBase64 = (value: string): Uint8Array =>
+    Uint8Array.from(atob(value.replace(/-----(BEGIN|END) [A-Z ]+-----|\s/g, '')), char => char.charCodeAt(0));
+
+/**
+ * Returns the signature algorithm matching a key
+ * @param info The key description
+ * @returns The default algorithm of the key
+ * @throws {Error} When no supported algorithm signs with the key
+ */
+const defaultAlgorithm = (info: KeyInfo): SignatureAlgorithm => {
+    if (info.algorithm === 'RSA') {
+        return 'RSA-SHA256';
+    }
+    if (info.algorithm === 'RSA-PSS') {
+        return 'RSA-PSS';
+    }
+    if (info.algorithm === 'EC' && info.curve === 'P-256') {
+        return 'ECDSA-P256';
+    }
+    if (info.algorithm === 'Ed25519') {
+        return 'Ed25519';
+    }
+    throw new Error(`No supported signature algorithm signs with ${info.algorithm}${info.curve ? ` ${info.curve}` : ''} keys`);
+};
+
+/**
+ * Writes labeled lines, with aligned values
+ * @param env The environment
+ * @param lines The label and value of each line. Lines without value are skipped
+ */
+const printLines = (env: CliEnvironment, lines: [string, string | undefined][]): void => {
+    const width = Math.max(...lines.map(([label]) => label.length)) + 2;
+    lines.filter(([, value]) => value !== undefined).forEach(([label, value]) => {
+        env.stdout(`${`${label}:`.padEnd(width)}${value}`);
+    });
+};
+
+/**
+ * Describes the size of a key
+ * @param info The key description
+ * @returns e.g. 'RSA 2048 bits' or 'EC P-256'
+ */
+const describeKey = (info: KeyInfo): string =>
+    info.curve ? `${info.algorithm} ${info.curve}` : `${info.algorithm} ${info.size} bits`;
+
+/**
+ * Generates a key pair
+ * @param args The parsed arguments
+ * @param env The environment
+ * @param subtle The WebCrypto implementation
+ */
+const generate = async (args: ParsedArgs, env: CliEnvironment, subtle: KeyToolCryptoLike): Promise<void> => {
+    const algorithm = algorithmOption(args) ?? 'RSA-SHA256';
+    const bits = Number(option(args, 'bits') ?? MIN_RSA_KEY_SIZE);
+    if (!Number.isInteger(bits) || bits < MIN_RSA_KEY_SIZE) {
+        throw new Error(`--bits must be an integer of at least ${MIN_RSA_KEY_SIZE}`);
+    }
+
+    // RSA-PSS keys are generated as rsaEncryption keys, which every signer and JSEncrypt accept
+    const params = algorithm === 'RSA-SHA256' || algorithm === 'RSA-PSS'
+        ? { name: 'RSASSA-PKCS1-v1_5', modulusLength: bits, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' }
+        : WEB_CRYPTO_PARAMS[algorithm].import;
+    const keyPair = await subtle.generateKey(params, true, ['sign', 'verify']) as CryptoKeyPair;
+    const privateKey = `sk_${toBase64(new Uint8Array(await subtle.exportKey('pkcs8', keyPair.privateKey)))}`;
+    const publicKey = `pk_${toBase64(new Uint8Array(await subtle.exportKey('spki', keyPair.publicKey)))}`;
+    const info = inspectKey(publicKey);
+
+    if (args.options.json) {
+        env.stdout(JSON.stringify({ algorithm, fingerprint: info.fingerprint, privateKey, publicKey }, null, 2));
+        return;
+    }
+    printLines(env, [
+        ['Algorithm', `${algorithm} (${describeKey(info)})`],
+        ['Fingerprint', info.fingerprint],
+        ['Private key', privateKey],
+        ['Public key', publicKey]
+    ]);
+};
+
+/**
+ * Prints the description of a key
+ * @param args The parsed arguments
+ * @param env The environment
+ */
+const fingerprint = async (args: ParsedArgs, env: CliEnvironment): Promise<void> => {
+    const info = inspectKey(await readKeyArgument(args, env));
+    const publicKey = info.publicKey ? `pk_${toBase64(fromBase64(info.publicKey))}` : undefined;
+
+    if (args.options.json) {
+        env.stdout(JSON.stringify({ ...info, publicKey }, null, 2));
+        return;
+    }
+    printLines(env, [
+        ['Format', `${info.format} (${info.type})`],
+        ['Algorithm', describeKey(info)],
+        ['Exponent', info.publicExponent?.toString()],
+        ['Fingerprint', info.fingerprint],
+        ['Public key', publicKey]
+    ]);
+};
+
+/**
+ * Signs a test request like `BaseClient` and verifies the signature with the public key
+ * @param args The parsed arguments
+ * @param env The environment
+ * @param subtle The WebCrypto implementation
+ * @returns false when the signature does not match the public key
+ */
+const sign = async (args: ParsedArgs, env: CliEnvironment, subtle: KeyToolCryptoLike): Promise<boolean> => {
+    const key = await readKeyArgument(args, env);
+    const info = inspectKey(key);
+    if (info.type !== 'private') {
+        throw new Error('A private key is required to sign, received a public key');
+    }
+    const algorithm = algorithmOption(args) ?? defaultAlgorithm(info);
+    const version = (option(args, 'signature-version') ?? 'v1') as SignatureVersion;
+    if (!SIGNATURE_VERSIONS.includes(version)) {
+        throw new Error(`Unsupported signature version "${version}". Expected one of ${SIGNATURE_VERSIONS.join(', ')}`);
+    }
+    const timestamp = option(args, 'timestamp') ?? String((env.now ?? Date.now)());
+    if (!/^\d+$/.test(timestamp)) {
+        throw new Error('--timestamp must be a number of milliseconds');
+    }
+
+    const apiKey = `${requireOption(args, 'api-key-id')}_${requireOption(args, 'project-id')}_${requireOption(args, 'user-id')}`;
+    const nonce = args.options.nonce ? generateNonce() : undefined;
+    const method = (option(args, 'method') ?? 'GET').toUpperCase();
+    const url = option(args, 'url') ?? 'https://api.hosby.com/project/users/find/';
+    const body = method !== 'GET' ? option(args, 'body') : undefined;
+    const payload = buildSigningPayload(version, { method, url, body, headers: {}, apiKey, timestamp, nonce });
+
+    // RSA-SHA256 signatures are deterministic, so WebCrypto produces the same signature as JSEncrypt in the client
+    const signer = createWebCryptoSigner({ privateKey: toPkcs8(key), algorithm, subtle });
+    const signature = await signer.sign(payload);
+
+    // Headers in the order of BaseClient.signHeaders. Keys signed by JSEncrypt do not send their algorithm
+    const headers: Record<string, string> = { 'x-signature': signature, 'x-timestamp': timestamp, 'x-api-key': apiKey };
+    if (algorithm !== 'RSA-SHA256') {
+        headers['x-signature-algorithm'] = algorithm;
+    }
+    if (nonce) {
+        headers['x-nonce'] = nonce;
+    }
+    if (version !== 'v1') {
+        headers['x-signature-version'] = version;
+    }
+
+    const publicKey = option(args, 'public-key') ?? info.publicKey;
+    if (!publicKey) {
+        throw new Error(`The public key cannot be derived from this ${info.algorithm} private key, pass it with --public-key`);
+    }
+    const publicKeyInfo = inspectKey(publicKey);
+    const params = WEB_CRYPTO_PARAMS[algorithm];
+    const verified = publicKeyInfo.type === 'public' && await subtle
+        .importKey('spki', fromBase64(publicKeyInfo.publicKey ?? ''), params.import, false, ['verify'])
+        .then(publicKey => subtle.verify(params.sign, publicKey, fromBase64(signature), new TextEncoder().encode(payload)))
+        .catch(() => false);
+
+    if (args.options.json) {
+        env.stdout(JSON.stringify({ payload, headers, fingerprint: publicKeyInfo.fingerprint, verified }, null, 2));
+    } else {
+        env.stdout('Payload:');
+        env.stdout(payload);
+        env.stdout('');
+        env.stdout('Headers:');
+        Object.entries(headers).forEach(([name, value]) => env.stdout(`${name}: ${value}`));
+        env.stdout('');
+        env.stdout(verified
+            ? `Signature verified with the public key ${publicKeyInfo.fingerprint}`
+            : `Signature does not match the public key ${publicKeyInfo.fingerprint}`);
+    }
+    return verified;
+};
+
+/**
+ * Runs the `hosby` command line
+ * @param args The arguments, without the executable and the script (e.g. `process.argv.slice(2)`)
+ * @param env The output streams and the Node.js modules of the environment
+ * @returns The exit code: 0 on success, 1 on failure
+ * @example
+ * ```typescript
+ * import * as fs from 'node:fs/promises';
+ *
+ * process.exitCode = await runCli(process.argv.slice(2), {
+ *   fs,
+ *   stdout: text => console.log(text),
+ *   stderr: text => console.error(text)
+ * });
+ * ```
+ */
+export const runCli = async (args: readonly string[], env: CliEnvironment): Promise<number> => {
+    try {
+        if (args.includes('--help')) {
+            env.stdout(USAGE);
+            return 0;
+        }
+        const [group, command, ...rest] = args;
+        if (group !== 'keys' || !command) {
+            env.stderr(USAGE);
+            return 1;
+        }
+        const parsed = parseArgs(rest);
+
+        const subtle = env.subtle ?? globalThis.crypto?.subtle;
+        if (typeof subtle?.generateKey !== 'function') {
+            throw new Error('WebCrypto is not available, Node.js 18 or later is required');
+        }
+        switch (command) {
+            case 'generate':
+                await generate(parsed, env, subtle);
+                return 0;
+            case 'fingerprint':
+                await fingerprint(parsed, env);
+                return 0;
+            case 'sign':
+                return await sign(parsed, env, subtle) ? 0 : 1;
+            default:
+                throw new Error(`Unknown command "keys ${command}". Expected generate, fingerprint or sign`);
+        }
+    } catch (error) {
+        env.stderr(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        return 1;
+    }
+};
@@ -1,8 +1,17 @@
-import { ApiResponse } from "../../types";
+import {
+    ApiResponse,
+    ErrorMode,
+    RequestOptions,
+    ResponseFor,
+    Result,
+    ResultRequestOptions,
+    ThrowRequestOptions
+} from "../../types";
 import { BaseClient } from "../BaseClient";
+import { HosbyValidationError } from "../../errors";
 
-export class AuthClient {
-    constructor(private readonly baseClient: BaseClient) { }
+export class AuthClient<M extends ErrorMode = 'throw'> {
+    constructor(private readonly baseClient: BaseClient<M>) { }
 
     /**
      * Authenticates a user by logging them into the specified table/collection.
@@ -13,20 +22,40 @@ export class AuthClient {
      * @param authenticatorId - Unique identifier for the authentication method being used
      * @param table - Name of the table/collection to log in to
      * @param data - The credentials or data to be sent for login, which should match type D
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Indicates whether the login was successful (true/false)
      *   - status: HTTP status code (typically 200 for success)
      *   - message: Response message providing details about the login attempt
      *   - data: Additional data returned from the login operation, if any
-     * @throws Error if the table name is missing, not a string, or if data is not provided
+     * @throws HosbyValidationError if the table name is missing, not a string, or if data is not provided
      */
+    login<T, D = unknown>(
+        authenticatorId: string,
+        table: string,
+        data: D,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    login<T, D = unknown>(
+        authenticatorId: string,
+        table: string,
+        data: D,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    login<T, D = unknown>(
+        authenticatorId: string,
+        table: string,
+        data: D,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async login<T, D = unknown>(
         authenticatorId: string,
         table: string,
         data: D,
-    ): Promise<ApiResponse<T>> {
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !authenticatorId || typeof authenticatorId !== 'string' || !data) {
-            throw new Error('Table and data are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table and data are required'), requestOptions);
         }
 
         return this.baseClient['request']<T>(
@@ -34,7 +63,8 @@ export class AuthClient {
             `${table}/${authenticatorId}/login`,
             undefined,
             undefined,
-            data
+            data,
+            requestOptions
         );
     }
 
@@ -47,19 +77,36 @@ export class AuthClient {
      * @template T - Type of the expected response data
      * @param authenticatorId - Unique identifier for the authentication method being used
      * @param table - Name of the table/collection from which to log out the user
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether the logout was successful (true/false)
      *   - status: HTTP status code (typically 200 for success)
      *   - message: Response message describing the result
      *   - data: Additional data returned from the logout operation, if any
-     * @throws Error if the table name is missing or not a string
+     * @throws HosbyValidationError if the table name is missing or not a string
      */
+    logout<T>(
+        authenticatorId: string,
+        table: string,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    logout<T>(
+        authenticatorId: string,
+        table: string,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    logout<T>(
+        authenticatorId: string,
+        table: string,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async logout<T>(
         authenticatorId: string,
-        table: string
-    ): Promise<ApiResponse<T>> {
+        table: string,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !authenticatorId || typeof authenticatorId !== 'string') {
-            throw new Error('Table is required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table is required'), requestOptions);
         }
 
         return this.baseClient['request']<T>(
@@ -67,7 +114,8 @@ export class AuthClient {
             `${table}/${authenticatorId}/logout`,
             undefined,
             undefined,
-            undefined
+            undefined,
+            requestOptions
         );
     }
 }
\ No newline at end of file
@@ -1,8 +1,18 @@
 import { BaseClient } from '../BaseClient';
-import { ApiResponse, QueryFilter } from '../../types';
+import { HosbyValidationError } from '../../errors';
+import {
+    ApiResponse,
+    ErrorMode,
+    QueryFilter,
+    RequestOptions,
+    ResponseFor,
+    Result,
+    ResultRequestOptions,
+    ThrowRequestOptions
+} from '../../types';
 
-export class BulkQueryClient {
-    constructor(private readonly baseClient: BaseClient) { }
+export class BulkQueryClient<M extends ErrorMode = 'throw'> {
+    constructor(private readonly baseClient: BaseClient<M>) { }
 
     /**
      * Perform bulk insert operations on documents
@@ -10,12 +20,13 @@ export class BulkQueryClient {
      * @template D - Type of documents being inserted (defaults to unknown)
      * @param table - Name of the table/collection
      * @param payload - Array of documents to insert. Each document should match type D
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether insert was successful (true/false)
      *   - status: HTTP status code (201 for success)
      *   - message: Response message describing the result
      *   - data: Array of inserted documents of type T
-     * @throws Error if table or data array is missing/empty
+     * @throws HosbyValidationError if table or data array is missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -38,20 +49,38 @@ export class BulkQueryClient {
      * );
      * ```
      */
+    bulkInsert<T, D = unknown>(
+        table: string,
+        payload: D[],
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    bulkInsert<T, D = unknown>(
+        table: string,
+        payload: D[],
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    bulkInsert<T, D = unknown>(
+        table: string,
+        payload: D[],
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async bulkInsert<T, D = unknown>(
         table: string,
         payload: D[],
-    ): Promise<ApiResponse<T>> {
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !payload?.length) {
-            throw new Error('Table and data array are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table and data array are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'POST',
             `${table}/bulkInsert`,
             undefined,
             undefined,
-            payload
+            payload,
+            requestOptions
         );
     }
 
@@ -62,12 +91,13 @@ export class BulkQueryClient {
      * @param table - Name of the table/collection
      * @param queryFilters - Array of filter criteria for querying
      * @param data - Data to update the documents with
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether update was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: Array of updated documents of type T
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -87,21 +117,42 @@ export class BulkQueryClient {
      * );
      * ```
      */
+    bulkUpdate<T, D = unknown>(
+        table: string,
+        data: D,
+        queryFilters: QueryFilter[] | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    bulkUpdate<T, D = unknown>(
+        table: string,
+        data: D,
+        queryFilters: QueryFilter[] | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    bulkUpdate<T, D = unknown>(
+        table: string,
+        data: D,
+        queryFilters?: QueryFilter[],
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async bulkUpdate<T, D = unknown>(
         table: string,
         data: D,
-        queryFilters?: QueryFilter[]
-    ): Promise<ApiResponse<T>> {
+        queryFilters?: QueryFilter[],
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string') {
-            throw new Error('Table name is required and must be a string');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name is required and must be a string'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'PUT',
             `${table}/bulkUpdate`,
             queryFilters,
             undefined,
-            data
+            data,
+            requestOptions
         );
     }
 
@@ -110,12 +161,13 @@ export class BulkQueryClient {
      * @template T - Type of the returned documents array
      * @param table - Name of the table/collection
      * @param queryFilters - Array of filter criteria for querying
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether delete was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: Array of deleted documents of type T
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -131,22 +183,42 @@ export class BulkQueryClient {
      * );
      * ```
      */
+    bulkDelete<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    bulkDelete<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    bulkDelete<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async bulkDelete<T>(
         table: string,
-        queryFilters: QueryFilter[]
-    ): Promise<ApiResponse<T>> {
+        queryFilters: QueryFilter[],
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string') {
-            throw new Error('Table name is required and must be a string');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name is required and must be a string'), requestOptions);
         }
 
         if (!queryFilters?.length) {
-            throw new Error('At least one filter is required for bulk delete');
+            return this.baseClient['fail']<T>(new HosbyValidationError('At least one filter is required for bulk delete'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'DELETE',
             `${table}/bulkDelete`,
-            queryFilters
+            queryFilters,
+            undefined,
+            undefined,
+            requestOptions
         );
     }
 }
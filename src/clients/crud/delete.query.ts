@@ -1,20 +1,32 @@
-import { ApiResponse, QueryFilter, QueryOptions } from "../../types";
+import {
+    ApiResponse,
+    ErrorMode,
+    QueryFilter,
+    QueryOptions,
+    RequestOptions,
+    ResponseFor,
+    Result,
+    ResultRequestOptions,
+    ThrowRequestOptions
+} from "../../types";
 import { BaseClient } from "../BaseClient";
+import { HosbyValidationError } from "../../errors";
 
-export class DeleteQueryClient {
-    constructor(private readonly baseClient: BaseClient) { }
+export class DeleteQueryClient<M extends ErrorMode = 'throw'> {
+    constructor(private readonly baseClient: BaseClient<M>) { }
 
     /**
      * Delete a single document by filter criteria
      * @template T - Type of document being deleted and returned
      * @param table - Name of the table/collection
      * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether deletion was successful 
      *   - status: HTTP status code (200 for success)
      *   - message: Human readable response message
      *   - data: The deleted document matching type T
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -40,18 +52,38 @@ export class DeleteQueryClient {
      * );
      * ```
      */
+    deleteOne<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    deleteOne<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    deleteOne<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async deleteOne<T>(
         table: string,
-        queryFilters: QueryFilter[]
-    ): Promise<ApiResponse<T>> {
+        queryFilters: QueryFilter[],
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error('Table and filters are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table and filters are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'DELETE',
             `${table}/deleteOne`,
-            queryFilters
+            queryFilters,
+            undefined,
+            undefined,
+            requestOptions
         );
     }
 
@@ -62,12 +94,13 @@ export class DeleteQueryClient {
      * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
      * @param options - Additional query options
      * @param options.limit - Maximum number of documents to delete
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Boolean indicating if operation succeeded
      *   - status: HTTP status code (200 for success)
      *   - message: Human readable response message
      *   - data: Object with deletedCount indicating number of deleted documents
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface DeleteResult {
@@ -89,20 +122,42 @@ export class DeleteQueryClient {
      * }
      * ```
      */
+    deleteMany<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'limit'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    deleteMany<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'limit'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    deleteMany<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options?: Pick<QueryOptions, 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async deleteMany<T>(
         table: string,
         queryFilters: QueryFilter[],
-        options?: Pick<QueryOptions, 'limit'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error('Table and queryFilters are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table and queryFilters are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'DELETE',
             `${table}/deleteMany`,
             queryFilters,
-            options
+            options,
+            undefined,
+            requestOptions
         );
     }
 
@@ -113,12 +168,13 @@ export class DeleteQueryClient {
      * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
      * @param options - Additional query options
      * @param options.populate - Fields to populate in the returned document. Can be a string for a single field or array of strings for multiple fields
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether deletion was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: The deleted document of type T
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -147,20 +203,42 @@ export class DeleteQueryClient {
      * }
      * ```
      */
+    findOneAndDelete<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'limit'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    findOneAndDelete<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'limit'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    findOneAndDelete<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options?: Pick<QueryOptions, 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async findOneAndDelete<T>(
         table: string,
         queryFilters: QueryFilter[],
-        options?: Pick<QueryOptions, 'limit'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error('Table and queryFilters are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table and queryFilters are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'DELETE',
             `${table}/findOneAndDelete`,
             queryFilters,
-            options
+            options,
+            undefined,
+            requestOptions
         );
     }
 
@@ -171,12 +249,13 @@ export class DeleteQueryClient {
      * @param queryFilters - Array of filter criteria for querying. Each filter should have field and value properties
      * @param options - Additional query options
      * @param options.limit - Maximum number of documents to delete. If not specified, all matching documents will be deleted
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether deletion was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: Array of deleted documents matching type T
-     * @throws Error if project, table or queryFilters are missing/empty
+     * @throws HosbyValidationError if project, table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -206,20 +285,42 @@ export class DeleteQueryClient {
      * }
      * ```
      */
+    deleteByField<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: { limit?: number } | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    deleteByField<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: { limit?: number } | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    deleteByField<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options?: { limit?: number },
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async deleteByField<T>(
         table: string,
         queryFilters: QueryFilter[],
-        options: { limit?: number } = {}
-    ): Promise<ApiResponse<T>> {
+        options: { limit?: number } = {},
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error('Table and query filters are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table and query filters are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'DELETE',
             `${table}/deleteByField`,
             queryFilters,
-            options
+            options,
+            undefined,
+            requestOptions
         );
     }
 
@@ -230,12 +331,13 @@ export class DeleteQueryClient {
      * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
      * @param options - Additional query options
      * @param options.limit - Maximum number of documents to delete
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether deletion was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Human readable response message
      *   - data: The deleted document matching type T
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -257,20 +359,42 @@ export class DeleteQueryClient {
      * }
      * ```
      */
+    deleteByToken<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'limit'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    deleteByToken<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'limit'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    deleteByToken<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options?: Pick<QueryOptions, 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async deleteByToken<T>(
         table: string,
         queryFilters: QueryFilter[],
-        options?: Pick<QueryOptions, 'limit'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error(`Table and query filter ' token ' are required`);
+            return this.baseClient['fail']<T>(new HosbyValidationError(`Table and query filter ' token ' are required`), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'DELETE',
             `$${table}/deleteByToken`,
             queryFilters,
-            options
+            options,
+            undefined,
+            requestOptions
         );
     }
 
@@ -281,12 +405,13 @@ export class DeleteQueryClient {
      * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
      * @param options - Additional query options
      * @param options.limit - Maximum number of documents to delete
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether deletion was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Human readable response message
      *   - data: The deleted document matching type T
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface Document {
@@ -307,20 +432,42 @@ export class DeleteQueryClient {
      * }
      * ```
      */
+    deleteById<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'limit'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    deleteById<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'limit'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    deleteById<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options?: Pick<QueryOptions, 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async deleteById<T>(
         table: string,
         queryFilters: QueryFilter[],
-        options?: Pick<QueryOptions, 'limit'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error(`Table and query filter ' id ' are required`);
+            return this.baseClient['fail']<T>(new HosbyValidationError(`Table and query filter ' id ' are required`), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'DELETE',
             `${table}/delete`,
             queryFilters,
-            options
+            options,
+            undefined,
+            requestOptions
         );
     }
 }
\ No newline at end of file
@@ -1,8 +1,19 @@
-import { ApiResponse, QueryFilter, QueryOptions } from "../../types";
+import {
+    ApiResponse,
+    ErrorMode,
+    QueryFilter,
+    QueryOptions,
+    RequestOptions,
+    ResponseFor,
+    Result,
+    ResultRequestOptions,
+    ThrowRequestOptions
+} from "../../types";
 import { BaseClient } from "../BaseClient";
+import { HosbyValidationError } from "../../errors";
 
-export class GetQueryClient {
-    constructor(private readonly baseClient: BaseClient) { }
+export class GetQueryClient<M extends ErrorMode = 'throw'> {
+    constructor(private readonly baseClient: BaseClient<M>) { }
 
     /**
      * Find multiple documents based or not filter criteria
@@ -15,12 +26,13 @@ export class GetQueryClient {
      * @param options.limit - Maximum number of documents to return in response
      * @param options.query - Advanced query conditions using MongoDB-style operators ($eq, $gt, etc)
      * @param options.slice - Array field slicing parameters to limit array sizes in response
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Boolean indicating if operation succeeded
      *   - status: HTTP status code (200 for success)
      *   - message: Human readable response message
      *   - data: Array of found documents matching type T
-     * @throws Error if table parameters are missing/empty
+     * @throws HosbyValidationError if table parameters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -61,20 +73,40 @@ export class GetQueryClient {
      * }
      * ```
      */
+    find<T>(
+        table: string,
+        queryFilters: QueryFilter[] | undefined,
+        options: QueryOptions | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    find<T>(
+        table: string,
+        queryFilters: QueryFilter[] | undefined,
+        options: QueryOptions | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    find<T>(
+        table: string,
+        queryFilters?: QueryFilter[],
+        options?: QueryOptions,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async find<T>(
         table: string,
         queryFilters?: QueryFilter[],
-        options?: QueryOptions
-    ): Promise<ApiResponse<T>> {
+        options?: QueryOptions,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string') {
-            throw new Error('Table name is required and must be a string');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name is required and must be a string'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
-            'GET',
+        return this.baseClient['read']<T>(
+            table,
             `${table}/find`,
             queryFilters,
-            options
+            options,
+            requestOptions
         );
     }
 
@@ -85,12 +117,13 @@ export class GetQueryClient {
      * @param table - Name of the table/collection 
      * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties. 
      *                      Must include an '_id' field filter with the document ID to find.
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether operation was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: The found document of type T, or null if not found
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface Document {
@@ -112,18 +145,36 @@ export class GetQueryClient {
      * }
      * ```
      */
+    findById<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    findById<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    findById<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async findById<T>(
         table: string,
-        queryFilters: QueryFilter[]
-    ): Promise<ApiResponse<T>> {
+        queryFilters: QueryFilter[],
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error('Table name and query filters are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name and query filters are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
-            'GET',
+        return this.baseClient['read']<T>(
+            table,
             `${table}/findById`,
-            queryFilters
+            queryFilters,
+            undefined,
+            requestOptions
         );
     }
 
@@ -133,12 +184,13 @@ export class GetQueryClient {
      * @param table - Name of the table/collection
      * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties.
      *                      Must include an 'email' field filter with the email address to find.
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether operation was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: The found document of type T, or null if not found
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -160,18 +212,36 @@ export class GetQueryClient {
      * }
      * ```
      */
+    findByEmail<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    findByEmail<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    findByEmail<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async findByEmail<T>(
         table: string,
         queryFilters: QueryFilter[],
-    ): Promise<ApiResponse<T>> {
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error(`Table name and filter 'Email' required`);
+            return this.baseClient['fail']<T>(new HosbyValidationError(`Table name and filter 'Email' required`), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
-            'GET',
+        return this.baseClient['read']<T>(
+            table,
             `${table}/findByEmail`,
-            queryFilters
+            queryFilters,
+            undefined,
+            requestOptions
         );
     }
 
@@ -184,12 +254,13 @@ export class GetQueryClient {
      * @param options - Additional query options
      * @param options.populate - Fields to populate in the returned document. Can be a string for a single field 
      *                          or array of strings for multiple fields
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether operation was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: The found document of type T, or null if not found
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -215,20 +286,40 @@ export class GetQueryClient {
      * }
      * ```
      */
+    findByToken<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    findByToken<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    findByToken<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async findByToken<T>(
         table: string,
         queryFilters: QueryFilter[],
-        options?: Pick<QueryOptions, 'populate'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error(`Table name and 'Token' is required`);
+            return this.baseClient['fail']<T>(new HosbyValidationError(`Table name and 'Token' is required`), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
-            'GET',
+        return this.baseClient['read']<T>(
+            table,
             `${table}/findByToken`,
             queryFilters,
-            options
+            options,
+            requestOptions
         );
     }
 
@@ -240,12 +331,13 @@ export class GetQueryClient {
      * @param options - Additional query options
      * @param options.populate - Fields to populate in the returned documents. Can be a string for a single field or array of strings for multiple fields
      * @param options.limit - Maximum number of documents to return. If not specified, returns all matching documents
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether operation was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: Array of found documents of type T, or empty array if none found
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -274,20 +366,40 @@ export class GetQueryClient {
      * }
      * ```
      */
+    findByField<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate' | 'limit'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    findByField<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate' | 'limit'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    findByField<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options?: Pick<QueryOptions, 'populate' | 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async findByField<T>(
         table: string,
         queryFilters: QueryFilter[],
-        options?: Pick<QueryOptions, 'populate' | 'limit'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'populate' | 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error('Table name and query filters are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name and query filters are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
-            'GET',
+        return this.baseClient['read']<T>(
+            table,
             `${table}/findByField`,
             queryFilters,
-            options
+            options,
+            requestOptions
         );
     }
 
@@ -298,12 +410,13 @@ export class GetQueryClient {
      * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
      * @param options - Additional query options
      * @param options.populate - Array of field paths to populate in the response
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether query was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: The found document of type T, or null if not found
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -329,20 +442,40 @@ export class GetQueryClient {
      * }
      * ```
      */
+    findUnique<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    findUnique<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    findUnique<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async findUnique<T>(
         table: string,
         queryFilters: QueryFilter[],
-        options?: Pick<QueryOptions, 'populate'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error('Table name and query filters are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name and query filters are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
-            'GET',
+        return this.baseClient['read']<T>(
+            table,
             `${table}/findUnique`,
             queryFilters,
-            options
+            options,
+            requestOptions
         );
     }
 
@@ -353,12 +486,13 @@ export class GetQueryClient {
      * @param queryFilters - Array of filter criteria for querying. Each filter should have field and value properties
      * @param options - Additional query options
      * @param options.populate - Array of field paths to populate in the response
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether query was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: The first found document of type T, or null if not found
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -384,20 +518,40 @@ export class GetQueryClient {
      * }
      * ```
      */
+    findFirst<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    findFirst<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    findFirst<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async findFirst<T>(
         table: string,
         queryFilters: QueryFilter[],
-        options?: Pick<QueryOptions, 'populate'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error('Table name and query filters are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name and query filters are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
-            'GET',
+        return this.baseClient['read']<T>(
+            table,
             `${table}/findFirst`,
             queryFilters,
-            options
+            options,
+            requestOptions
         );
     }
 
@@ -408,12 +562,13 @@ export class GetQueryClient {
      * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
      * @param options - Additional query options
      * @param options.limit - Maximum number of records to return
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether query was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: Array of found documents of type T, or empty array if none found
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -436,20 +591,40 @@ export class GetQueryClient {
      * }
      * ```
      */
+    findGreaterThan<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'limit'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    findGreaterThan<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'limit'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    findGreaterThan<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options?: Pick<QueryOptions, 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async findGreaterThan<T>(
         table: string,
         queryFilters: QueryFilter[],
-        options?: Pick<QueryOptions, 'limit'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error('Table name and query filters are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name and query filters are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
-            'GET',
+        return this.baseClient['read']<T>(
+            table,
             `${table}/findGreaterThan`,
             queryFilters,
-            options
+            options,
+            requestOptions
         );
     }
 
@@ -460,12 +635,13 @@ export class GetQueryClient {
      * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
      * @param options - Additional query options
      * @param options.limit - Maximum number of records to return
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether query was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: Array of found documents of type T, or empty array if none found
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface Product {
@@ -491,20 +667,40 @@ export class GetQueryClient {
      * }
      * ```
      */
+    findLessThan<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'limit'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    findLessThan<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'limit'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    findLessThan<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options?: Pick<QueryOptions, 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async findLessThan<T>(
         table: string,
         queryFilters: QueryFilter[],
-        options?: Pick<QueryOptions, 'limit'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error('Table name and query filters are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name and query filters are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
-            'GET',
+        return this.baseClient['read']<T>(
+            table,
             `${table}/findLessThan`,
             queryFilters,
-            options
+            options,
+            requestOptions
         );
     }
 
@@ -515,12 +711,13 @@ export class GetQueryClient {
      * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
      * @param options - Additional query options
      * @param options.limit - Maximum number of records to return
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether query was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: Array of found documents of type T, or empty array if none found
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -546,20 +743,40 @@ export class GetQueryClient {
      * }
      * ```
      */
+    findEqual<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'limit'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    findEqual<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'limit'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    findEqual<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options?: Pick<QueryOptions, 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async findEqual<T>(
         table: string,
         queryFilters: QueryFilter[],
-        options?: Pick<QueryOptions, 'limit'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error('Table name and query filters are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name and query filters are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
-            'GET',
+        return this.baseClient['read']<T>(
+            table,
             `${table}/findEqual`,
             queryFilters,
-            options
+            options,
+            requestOptions
         );
     }
 
@@ -572,12 +789,13 @@ export class GetQueryClient {
      * @param options.populate - Array of field paths to populate in the response. Required.
      * @param options.skip - Number of records to skip (optional)
      * @param options.limit - Maximum number of records to return (optional)
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether query was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: Array of found and populated documents of type T
-     * @throws Error if table or populate options are missing
+     * @throws HosbyValidationError if table or populate options are missing
      * @example
      * ```typescript
      * interface Order {
@@ -616,20 +834,40 @@ export class GetQueryClient {
      * }
      * ```
      */
+    findAndPopulate<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: QueryOptions,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    findAndPopulate<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: QueryOptions,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    findAndPopulate<T>(
+        table: string,
+        queryFilters: QueryFilter[],
+        options: QueryOptions,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async findAndPopulate<T>(
         table: string,
         queryFilters: QueryFilter[],
-        options: QueryOptions
-    ): Promise<ApiResponse<T>> {
+        options: QueryOptions,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !options?.populate) {
-            throw new Error('Table name and populate options are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name and populate options are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
-            'GET',
+        return this.baseClient['read']<T>(
+            table,
             `${table}/findAndPopulate`,
             queryFilters,
-            options
+            options,
+            requestOptions
         );
     }
 
@@ -638,12 +876,13 @@ export class GetQueryClient {
      * @template T - Type of the response data, typically { count: number }
      * @param table - Name of the table/collection
      * @param queryFilters - Optional array of filter criteria. Each filter should have field and value properties
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether request was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: Object of type T containing the count
-     * @throws Error if table is missing
+     * @throws HosbyValidationError if table is missing
      * @example
      * ```typescript
      * interface CountResult {
@@ -670,18 +909,36 @@ export class GetQueryClient {
      * );
      * ```
      */
+    count<T>(
+        table: string,
+        queryFilters: QueryFilter[] | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    count<T>(
+        table: string,
+        queryFilters: QueryFilter[] | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    count<T>(
+        table: string,
+        queryFilters?: QueryFilter[],
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async count<T>(
         table: string,
-        queryFilters?: QueryFilter[]
-    ): Promise<ApiResponse<T>> {
+        queryFilters?: QueryFilter[],
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string') {
-            throw new Error('Table name is required and must be a string');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name is required and must be a string'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
-            'GET',
+        return this.baseClient['read']<T>(
+            table,
             `${table}/count`,
-            queryFilters
+            queryFilters,
+            undefined,
+            requestOptions
         );
     }
 
@@ -694,12 +951,13 @@ export class GetQueryClient {
      * @param options.skip - Number of records to skip in the aggregation results (pagination)
      * @param options.limit - Maximum number of records to return in the aggregation results (pagination)
      * @param options.populate - Array of field paths to populate with referenced documents in the aggregation results
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether aggregation was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: Array of type T containing the aggregation results
-     * @throws Error if table is missing
+     * @throws HosbyValidationError if table is missing
      * @example
      * ```typescript
      * interface AggregateResult {
@@ -726,20 +984,40 @@ export class GetQueryClient {
      * }
      * ```
      */
+    aggregate<T>(
+        table: string,
+        queryFilters: QueryFilter[] | undefined,
+        options: Pick<QueryOptions, 'skip' | 'limit' | 'populate'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    aggregate<T>(
+        table: string,
+        queryFilters: QueryFilter[] | undefined,
+        options: Pick<QueryOptions, 'skip' | 'limit' | 'populate'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    aggregate<T>(
+        table: string,
+        queryFilters?: QueryFilter[],
+        options?: Pick<QueryOptions, 'skip' | 'limit' | 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async aggregate<T>(
         table: string,
         queryFilters?: QueryFilter[],
-        options?: Pick<QueryOptions, 'skip' | 'limit' | 'populate'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'skip' | 'limit' | 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string') {
-            throw new Error('Table name is required and must be a string');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name is required and must be a string'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
-            'GET',
+        return this.baseClient['read']<T>(
+            table,
             `${table}/aggregate`,
             queryFilters,
-            options
+            options,
+            requestOptions
         );
     }
 
@@ -752,12 +1030,13 @@ export class GetQueryClient {
      * @param options - Additional query options
      * @param options.skip - Number of records to skip before getting distinct values
      * @param options.limit - Maximum number of distinct values to return
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether operation was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: Array of type T containing the distinct values
-     * @throws Error if table or queryFilters are missing
+     * @throws HosbyValidationError if table or queryFilters are missing
      * @example
      * ```typescript
      * interface User {
@@ -783,20 +1062,40 @@ export class GetQueryClient {
      * }
      * ```
      */
+    distinct<T>(
+        table: string,
+        queryFilters: QueryFilter[] | undefined,
+        options: Pick<QueryOptions, 'skip' | 'limit'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    distinct<T>(
+        table: string,
+        queryFilters: QueryFilter[] | undefined,
+        options: Pick<QueryOptions, 'skip' | 'limit'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    distinct<T>(
+        table: string,
+        queryFilters?: QueryFilter[],
+        options?: Pick<QueryOptions, 'skip' | 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async distinct<T>(
         table: string,
         queryFilters?: QueryFilter[],
-        options?: Pick<QueryOptions, 'skip' | 'limit'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'skip' | 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error('Table name and queryFilters are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name and queryFilters are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
-            'GET',
+        return this.baseClient['read']<T>(
+            table,
             `${table}/distinct`,
             queryFilters,
-            options
+            options,
+            requestOptions
         );
     }
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { BaseClient } from "../BaseClient";
+import { ErrorMode } from "../../types";
 import { GetQueryClient } from "./get.query";
 import { PatchQueryClient } from "./patch.query";
 import { PostQueryClient } from "./post.query";
@@ -40,58 +41,58 @@ import { AuthClient } from "../auth/auth";
  * await client.delete.removeOne('users', userId);
  * ```
  */
-export class HosbyClient {
-    private readonly baseClient: BaseClient;
+export class HosbyClient<M extends ErrorMode = 'throw'> {
+    private readonly baseClient: BaseClient<M>;
 
     /**
      * Client for handling auth operations
      * @public
      */
-    public readonly auth: AuthClient;
+    public readonly auth: AuthClient<M>;
 
 
     /**
      * Client for handling read operations
      * @public
      */
-    public readonly get: GetQueryClient;
+    public readonly get: GetQueryClient<M>;
 
     /**
      * Client for handling create operations
      * @public
      */
-    public readonly post: PostQueryClient;
+    public readonly post: PostQueryClient<M>;
 
     /**
      * Client for handling replace operations
      * @public
      */
-    public readonly put: PutQueryClient;
+    public readonly put: PutQueryClient<M>;
 
     /**
      * Client for handling update operations
      * @public
      */
-    public readonly patch: PatchQueryClient;
+    public readonly patch: PatchQueryClient<M>;
 
     /**
      * Client for handling delete operations
      * @public
      */
-    public readonly delete: DeleteQueryClient;
+    public readonly delete: DeleteQueryClient<M>;
 
     /**
      * Client for handling bulk operations
      * @public
      */
-    public readonly bulk: BulkQueryClient;
+    public readonly bulk: BulkQueryClient<M>;
 
     /**
      * Creates a new HosbyClient instance
      * @param baseClient - Configured BaseClient instance for making HTTP requests
      * @throws {Error} When baseClient is not provided
      */
-    constructor(baseClient: BaseClient) {
+    constructor(baseClient: BaseClient<M>) {
         if (!baseClient) {
             throw new Error('BaseClient instance is required');
         }
@@ -127,8 +128,8 @@ export class HosbyClient {
  * const client = createClient(baseClient);
  * ```
  */
-export function createClient(baseClient: BaseClient): HosbyClient {
-    return new HosbyClient(baseClient);
+export function createClient<M extends ErrorMode = 'throw'>(baseClient: BaseClient<M>): HosbyClient<M> {
+    return new HosbyClient<M>(baseClient);
 }
 
 // Export types for consumer usage
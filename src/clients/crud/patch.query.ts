@@ -1,8 +1,19 @@
-import { ApiResponse, QueryFilter, QueryOptions } from "../../types";
+import {
+    ApiResponse,
+    ErrorMode,
+    QueryFilter,
+    QueryOptions,
+    RequestOptions,
+    ResponseFor,
+    Result,
+    ResultRequestOptions,
+    ThrowRequestOptions
+} from "../../types";
 import { BaseClient } from "../BaseClient";
+import { HosbyValidationError } from "../../errors";
 
-export class PatchQueryClient {
-    constructor(private readonly baseClient: BaseClient) { }
+export class PatchQueryClient<M extends ErrorMode = 'throw'> {
+    constructor(private readonly baseClient: BaseClient<M>) { }
 
     /**
      * Update a single document by filter criteria
@@ -13,12 +24,13 @@ export class PatchQueryClient {
      * @param data - Data to update the document with. Should match type D
      * @param options - Additional query options
      * @param options.populate - Array of field paths to populate in the returned document
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether update was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: The updated document of type T
-     * @throws Error if table or queryFilters are missing/empty
+     * @throws HosbyValidationError if table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -51,22 +63,46 @@ export class PatchQueryClient {
      * );
      * ```
      */
+    updateOne<T, D = unknown>(
+        table: string,
+        data: D,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    updateOne<T, D = unknown>(
+        table: string,
+        data: D,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    updateOne<T, D = unknown>(
+        table: string,
+        data: D,
+        queryFilters: QueryFilter[],
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async updateOne<T, D = unknown>(
         table: string,
         data: D,
         queryFilters: QueryFilter[],
-        options?: Pick<QueryOptions, 'populate'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters?.length) {
-            throw new Error('Table and filters are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table and filters are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'PATCH',
             `${table}/updateOne`,
             queryFilters,
             options,
-            data
+            data,
+            requestOptions
         );
     }
 
@@ -78,12 +114,13 @@ export class PatchQueryClient {
      * @param options - Additional query options
      * @param options.populate - Fields to populate in the returned documents. Can be a string for a single field or array of strings for multiple fields
      * @param options.limit - Maximum number of documents to update. If not specified, all matching documents will be updated
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether update was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: Object containing modifiedCount indicating number of documents that were updated
-     * @throws Error if project or table is missing
+     * @throws HosbyValidationError if project or table is missing
      * @example
      * ```typescript
      * // Define the update data shape
@@ -116,22 +153,46 @@ export class PatchQueryClient {
      * console.log(`Updated ${result.data.modifiedCount} documents`);
      * ```
      */
+    updateMany<T, D = unknown>(
+        table: string,
+        data: D,
+        filters: QueryFilter[] | undefined,
+        options: Pick<QueryOptions, 'populate' | 'limit'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    updateMany<T, D = unknown>(
+        table: string,
+        data: D,
+        filters: QueryFilter[] | undefined,
+        options: Pick<QueryOptions, 'populate' | 'limit'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    updateMany<T, D = unknown>(
+        table: string,
+        data: D,
+        filters?: QueryFilter[],
+        options?: Pick<QueryOptions, 'populate' | 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async updateMany<T, D = unknown>(
         table: string,
         data: D,
         filters?: QueryFilter[],
-        options?: Pick<QueryOptions, 'populate' | 'limit'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'populate' | 'limit'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string') {
-            throw new Error('Table name is required and must be a string');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name is required and must be a string'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'PATCH',
             `${table}/updateMany`,
             filters,
             options,
-            data
+            data,
+            requestOptions
         );
     }
 
@@ -142,10 +203,11 @@ export class PatchQueryClient {
      * @param data - Data to update the document with
      * @param options - Additional query options
      * @param options.populate - Fields to populate in the returned document. Can be a string for a single field or array of strings for multiple fields
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing the updated document
      * @template T - Type of the document being updated and returned
      * @template D - Type of the update data, defaults to unknown if not specified
-     * @throws Error if table or queryFilters are missing or empty
+     * @throws HosbyValidationError if table or queryFilters are missing or empty
      * @example
      * ```typescript
      * interface User {
@@ -180,22 +242,46 @@ export class PatchQueryClient {
      * }
      * ```
      */
+    findOneAndUpdate<T, D = unknown>(
+        table: string,
+        data: D,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    findOneAndUpdate<T, D = unknown>(
+        table: string,
+        data: D,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    findOneAndUpdate<T, D = unknown>(
+        table: string,
+        data: D,
+        queryFilters: QueryFilter[],
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async findOneAndUpdate<T, D = unknown>(
         table: string,
         data: D,
         queryFilters: QueryFilter[],
-        options?: Pick<QueryOptions, 'populate'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters.length) {
-            throw new Error('Table and queryFilters are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table and queryFilters are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'PATCH',
             `${table}/findOneAndUpdate`,
             queryFilters,
             options,
-            data
+            data,
+            requestOptions
         );
     }
 }
\ No newline at end of file
@@ -1,8 +1,19 @@
-import { ApiResponse, QueryFilter, QueryOptions } from "../../types";
+import {
+    ApiResponse,
+    ErrorMode,
+    QueryFilter,
+    QueryOptions,
+    RequestOptions,
+    ResponseFor,
+    Result,
+    ResultRequestOptions,
+    ThrowRequestOptions
+} from "../../types";
 import { BaseClient } from "../BaseClient";
+import { HosbyValidationError } from "../../errors";
 
-export class PostQueryClient {
-    constructor(private readonly baseClient: BaseClient) { }
+export class PostQueryClient<M extends ErrorMode = 'throw'> {
+    constructor(private readonly baseClient: BaseClient<M>) { }
 
     /**
      * Insert a single document
@@ -12,12 +23,13 @@ export class PostQueryClient {
      * @param payload - Document to insert. Should match type D
      * @param options - Additional query options
      * @param options.populate - Array of field paths to populate in the returned document
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether insert was successful (true/false)
      *   - status: HTTP status code (201 for success)
      *   - message: Response message describing the result
      *   - data: The inserted document of type T
-     * @throws Error if project, table or data is missing
+     * @throws HosbyValidationError if project, table or data is missing
      * @example
      * ```typescript
      * interface UserInput {
@@ -52,21 +64,42 @@ export class PostQueryClient {
      * }
      * ```
      */
+    insertOne<T, D = unknown>(
+        table: string,
+        payload: D,
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    insertOne<T, D = unknown>(
+        table: string,
+        payload: D,
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    insertOne<T, D = unknown>(
+        table: string,
+        payload: D,
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async insertOne<T, D = unknown>(
         table: string,
         payload: D,
-        options?: Pick<QueryOptions, 'populate'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !payload) {
-            throw new Error('Table and data are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table and data are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'POST',
             `${table}/insertOne`,
             undefined,
             options,
-            payload
+            payload,
+            requestOptions
         );
     }
 
@@ -78,12 +111,13 @@ export class PostQueryClient {
      * @param payload - Array of documents to insert. Each document should match type D
      * @param options - Additional query options
      * @param options.populate - Fields to populate in the returned documents. Can be a string for a single field or array of strings for multiple fields
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether insert was successful (true/false)
      *   - status: HTTP status code (201 for success)
      *   - message: Response message describing the result
      *   - data: Array of inserted documents of type T
-     * @throws Error if project, table or data array is missing/empty
+     * @throws HosbyValidationError if project, table or data array is missing/empty
      * @example
      * ```typescript
      * interface UserReturn {
@@ -122,21 +156,42 @@ export class PostQueryClient {
      * }
      * ```
      */
+    insertMany<T, D = unknown>(
+        table: string,
+        payload: D[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    insertMany<T, D = unknown>(
+        table: string,
+        payload: D[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    insertMany<T, D = unknown>(
+        table: string,
+        payload: D[],
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async insertMany<T, D = unknown>(
         table: string,
         payload: D[],
-        options?: Pick<QueryOptions, 'populate'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !payload) {
-            throw new Error('Table and data are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table and data are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'POST',
             `${table}/insertMany`,
             undefined,
             options,
-            payload
+            payload,
+            requestOptions
         );
     }
 
@@ -149,12 +204,13 @@ export class PostQueryClient {
      * @param data - Data to update/insert. Should match type D
      * @param options - Additional query options
      * @param options.populate - Array of field paths to populate in the returned document
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether upsert was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: The upserted document of type T
-     * @throws Error if project, table or filters are missing/empty
+     * @throws HosbyValidationError if project, table or filters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -191,26 +247,50 @@ export class PostQueryClient {
      * }
      * ```
      */
+    upsert<T, D = unknown>(
+        table: string,
+        payload: D,
+        filters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    upsert<T, D = unknown>(
+        table: string,
+        payload: D,
+        filters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    upsert<T, D = unknown>(
+        table: string,
+        payload: D,
+        filters: QueryFilter[],
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async upsert<T, D = unknown>(
         table: string,
         payload: D,
         filters: QueryFilter[],
-        options?: Pick<QueryOptions, 'populate'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string') {
-            throw new Error('Table name is required and must be a string');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name is required and must be a string'), requestOptions);
         }
 
         if (!filters?.length) {
-            throw new Error('At least one filter is required for upsert');
+            return this.baseClient['fail']<T>(new HosbyValidationError('At least one filter is required for upsert'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'POST',
             `${table}/upsert`,
             filters,
             options,
-            payload
+            payload,
+            requestOptions
         );
     }
 }
\ No newline at end of file
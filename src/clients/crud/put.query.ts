@@ -1,8 +1,19 @@
-import { ApiResponse, QueryFilter, QueryOptions } from "../../types";
+import {
+    ApiResponse,
+    ErrorMode,
+    QueryFilter,
+    QueryOptions,
+    RequestOptions,
+    ResponseFor,
+    Result,
+    ResultRequestOptions,
+    ThrowRequestOptions
+} from "../../types";
 import { BaseClient } from "../BaseClient";
+import { HosbyValidationError } from "../../errors";
 
-export class PutQueryClient {
-    constructor(private readonly baseClient: BaseClient) { }
+export class PutQueryClient<M extends ErrorMode = 'throw'> {
+    constructor(private readonly baseClient: BaseClient<M>) { }
 
     /**
      * Replace a document completely with new data
@@ -13,12 +24,13 @@ export class PutQueryClient {
      * @param payload - New document data to replace with. Should match type D
      * @param options - Additional query options
      * @param options.populate - Array of field paths to populate in the returned document
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether replace was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: The replaced document of type T
-     * @throws Error if project, table or queryFilters are missing/empty
+     * @throws HosbyValidationError if project, table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface UserReturn {
@@ -49,22 +61,46 @@ export class PutQueryClient {
      * );
      * ```
      */
+    replaceOne<T, D = unknown>(
+        table: string,
+        payload: D,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    replaceOne<T, D = unknown>(
+        table: string,
+        payload: D,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    replaceOne<T, D = unknown>(
+        table: string,
+        payload: D,
+        queryFilters: QueryFilter[],
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async replaceOne<T, D = unknown>(
         table: string,
         payload: D,
         queryFilters: QueryFilter[],
-        options?: Pick<QueryOptions, 'populate'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string' || !queryFilters.length) {
-            throw new Error('Table and queryFilters are required');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table and queryFilters are required'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'PUT',
             `${table}/replaceOne`,
             queryFilters,
             options,
-            payload
+            payload,
+            requestOptions
         );
     }
 
@@ -77,12 +113,13 @@ export class PutQueryClient {
      * @param payload - New document data to replace with. Should match type D
      * @param options - Additional query options
      * @param options.populate - Fields to populate in the returned document. Can be a string for a single field or array of strings for multiple fields
+     * @param requestOptions - Per-call request options such as `timeout` and `signal`
      * @returns Promise resolving to ApiResponse containing:
      *   - success: Whether replace was successful (true/false)
      *   - status: HTTP status code (200 for success)
      *   - message: Response message describing the result
      *   - data: The replaced document of type T
-     * @throws Error if project, table or queryFilters are missing/empty
+     * @throws HosbyValidationError if project, table or queryFilters are missing/empty
      * @example
      * ```typescript
      * interface User {
@@ -116,26 +153,50 @@ export class PutQueryClient {
      * }
      * ```
      */
+    findOneAndReplace<T, D = unknown>(
+        table: string,
+        payload: D,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ResultRequestOptions
+    ): Promise<Result<T>>;
+    findOneAndReplace<T, D = unknown>(
+        table: string,
+        payload: D,
+        queryFilters: QueryFilter[],
+        options: Pick<QueryOptions, 'populate'> | undefined,
+        requestOptions: ThrowRequestOptions
+    ): Promise<ApiResponse<T>>;
+    findOneAndReplace<T, D = unknown>(
+        table: string,
+        payload: D,
+        queryFilters: QueryFilter[],
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ResponseFor<T, M>>;
     async findOneAndReplace<T, D = unknown>(
         table: string,
         payload: D,
         queryFilters: QueryFilter[],
-        options?: Pick<QueryOptions, 'populate'>
-    ): Promise<ApiResponse<T>> {
+        options?: Pick<QueryOptions, 'populate'>,
+        requestOptions?: RequestOptions
+    ): Promise<ApiResponse<T> | Result<T>> {
         if (!table || typeof table !== 'string') {
-            throw new Error('Table name is required and must be a string');
+            return this.baseClient['fail']<T>(new HosbyValidationError('Table name is required and must be a string'), requestOptions);
         }
 
         if (!queryFilters?.length) {
-            throw new Error('At least one filter is required for findOneAndReplace');
+            return this.baseClient['fail']<T>(new HosbyValidationError('At least one filter is required for findOneAndReplace'), requestOptions);
         }
 
-        return this.baseClient['request']<T>(
+        return this.baseClient['mutate']<T>(
+            table,
             'PUT',
             `${table}/findOneAndReplace`,
             queryFilters,
             options,
-            payload
+            payload,
+            requestOptions
         );
     }
 }
\ No newline at end of file
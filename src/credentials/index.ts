@@ -0,0 +1,236 @@
+/**
+ * Secret material resolved by a {@link CredentialProvider}
+ */
+export interface Credentials {
+    /** Private key signing requests, as PEM, base64 DER or an `sk_` string */
+    readonly privateKey: string;
+}
+
+/**
+ * Resolves credentials lazily, on the first signed request, and caches them until they are refreshed.
+ * @example
+ * ```typescript
+ * const credentials: CredentialProvider = createCallbackCredentialProvider(
+ *   async () => ({ privateKey: await vault.read('hosby/private-key') }),
+ *   { ttl: 60 * 60 * 1000 }
+ * );
+ * ```
+ */
+export interface CredentialProvider {
+    /**
+     * Returns the cached credentials, loading them if needed
+     * @returns The credentials
+     */
+    getCredentials(): Promise<Credentials>;
+    /**
+     * Loads the credentials again and replaces the cached ones
+     * @returns The new credentials
+     */
+    refresh(): Promise<Credentials>;
+}
+
+/**
+ * Caching options of the built-in credential providers
+ */
+export interface CredentialProviderOptions {
+    /** Time in milliseconds after which the credentials are loaded again. Defaults to caching them forever */
+    ttl?: number;
+}
+
+/**
+ * Options of {@link createEnvCredentialProvider}
+ */
+export interface EnvCredentialProviderOptions extends CredentialProviderOptions {
+    /** Name of the variable holding the private key. Defaults to 'HOSBY_PRIVATE_KEY' */
+    variable?: string;
+    /** Environment to read. Defaults to `process.env` */
+    env?: Readonly<Record<string, string | undefined>>;
+}
+
+/**
+ * Subset of the Node.js `fs/promises` module used by the file credential providers
+ */
+export interface FileReaderLike {
+    readFile(path: string, encoding: 'utf8'): Promise<string>;
+}
+
+/**
+ * Options of {@link createFileCredentialProvider}
+ */
+export interface FileCredentialProviderOptions extends CredentialProviderOptions {
+    /** Path of the PEM file */
+    path: string;
+    /**
+     * The Node.js `fs/promises` module.
+     * Passed in rather than imported so that browser bundles never reference Node.js built-ins.
+     */
+    fs: FileReaderLike;
+}
+
+/**
+ * Subset of the Node.js `crypto` module used by {@link createEncryptedFileCredentialProvider}
+ */
+export interface KeyDecryptorLike {
+    createPrivateKey(options: { key: string; format: 'pem'; passphrase: string }): {
+        export(options: { type: 'pkcs8'; format: 'pem' }): string | { toString(): string };
+    };
+}
+
+/**
+ * Options of {@link createEncryptedFileCredentialProvider}
+ */
+export interface EncryptedFileCredentialProviderOptions extends FileCredentialProviderOptions {
+    /** Passphrase of the key, or a function returning it */
+    passphrase: string | (() => string | Promise<string>);
+    /** The Node.js `crypto` module */
+    crypto: KeyDecryptorLike;
+}
+
+/**
+ * Describes an error thrown while loading credentials
+ * @param error The error
+ * @returns The error message
+ */
+const errorMessage = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+/**
+ * Creates a credential provider from a loading function.
+ * Credentials are loaded on first use and shared by concurrent callers. A failed load is not cached.
+ * @param load Loads the credentials
+ * @param options Caching options
+ * @returns The credential provider
+ * @throws {Error} When load is not a function or the TTL is invalid
+ * @example
+ * ```typescript
+ * const client = new HosbyClient({
+ *   ...config,
+ *   credentials: createCallbackCredentialProvider(() => secrets.get('HOSBY_PRIVATE_KEY'))
+ * });
+ * ```
+ */
+export const createCallbackCredentialProvider = (
+    load: () => Credentials | Promise<Credentials>,
+    options: CredentialProviderOptions = {}
+): CredentialProvider => {
+    if (typeof load !== 'function') {
+        throw new Error('Credential loader must be a function');
+    }
+    const { ttl = Infinity } = options;
+    if (typeof ttl !== 'number' || ttl <= 0) {
+        throw new Error('Credentials ttl must be a positive number of milliseconds');
+    }
+
+    let cached: { credentials: Promise<Credentials>; expiresAt: number } | undefined;
+
+    const reload = (): Promise<Credentials> => {
+        const credentials = Promise.resolve()
+            .then(load)
+            .then(result => {
+                if (!result?.privateKey || typeof result.privateKey !== 'string') {
+                    throw new Error('Credentials must include a privateKey');
+                }
+                return { privateKey: result.privateKey };
+            })
+            .catch((error: unknown) => {
+                if (cached?.credentials === credentials) {
+                    cached = undefined;
+                }
+                throw error;
+            });
+        cached = { credentials, expiresAt: Date.now() + ttl };
+        return credentials;
+    };
+
+    return {
+        getCredentials: () => cached && cached.expiresAt > Date.now() ? cached.credentials : reload(),
+        refresh: reload
+    };
+};
+
+/**
+ * Creates a credential provider reading the private key from an environment variable.
+ * Escaped `\n` sequences are turned into line breaks, so that PEM keys fit on a single line.
+ * @param options The variable name, environment and caching options
+ * @returns The credential provider
+ * @example
+ * ```typescript
+ * const client = new HosbyClient({ ...config, credentials: createEnvCredentialProvider() });
+ * ```
+ */
+export const createEnvCredentialProvider = (options: EnvCredentialProviderOptions = {}): CredentialProvider => {
+    const { variable = 'HOSBY_PRIVATE_KEY', env, ...cache } = options;
+    return createCallbackCredentialProvider(() => {
+        const source = env ?? (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env ?? {};
+        const value = source[variable];
+        if (!value) {
+            throw new Error(`Environment variable "${variable}" is not set`);
+        }
+        return { privateKey: value.replace(/\\n/g, '\n') };
+    }, cache);
+};
+
+/**
+ * Creates a credential provider reading the private key from a PEM file
+ * @param options The file path, the `fs/promises` module and caching options
+ * @returns The credential provider
+ * @throws {Error} When the path or the file system module is missing
+ * @example
+ * ```typescript
+ * import * as fs from 'node:fs/promises';
+ *
+ * const credentials = createFileCredentialProvider({ path: '/run/secrets/hosby.pem', fs });
+ * ```
+ */
+export const createFileCredentialProvider = (options: FileCredentialProviderOptions): CredentialProvider => {
+    const { path, fs, ...cache } = options ?? {};
+    if (!path || typeof fs?.readFile !== 'function') {
+        throw new Error('A path and the Node.js fs/promises module are required to read a key file');
+    }
+    return createCallbackCredentialProvider(async () => {
+        try {
+            return { privateKey: await fs.readFile(path, 'utf8') };
+        } catch (error) {
+            throw new Error(`Failed to read the private key file "${path}": ${errorMessage(error)}`);
+        }
+    }, cache);
+};
+
+/**
+ * Creates a credential provider reading an encrypted PKCS#8 PEM file (`ENCRYPTED PRIVATE KEY`)
+ * and decrypting it with a passphrase. The decrypted key is only kept in memory.
+ * @param options The file path, the passphrase, the `fs/promises` and `crypto` modules and caching options
+ * @returns The credential provider
+ * @throws {Error} When the path, the passphrase or a module is missing
+ * @example
+ * ```typescript
+ * import * as crypto from 'node:crypto';
+ * import * as fs from 'node:fs/promises';
+ *
+ * const credentials = createEncryptedFileCredentialProvider({
+ *   path: './keys/hosby.enc.pem',
+ *   passphrase: () => process.env.HOSBY_KEY_PASSPHRASE ?? '',
+ *   fs,
+ *   crypto
+ * });
+ * ```
+ */
+export const createEncryptedFileCredentialProvider = (
+    options: EncryptedFileCredentialProviderOptions
+): CredentialProvider => {
+    const { passphrase, crypto, ...file } = options ?? {};
+    if (!passphrase || typeof crypto?.createPrivateKey !== 'function') {
+        throw new Error('A passphrase and the Node.js crypto module are required to decrypt a key file');
+    }
+    const encrypted = createFileCredentialProvider(file);
+
+    return createCallbackCredentialProvider(async () => {
+        const { privateKey } = await encrypted.refresh();
+        const secret = typeof passphrase === 'function' ? await passphrase() : passphrase;
+        try {
+            const key = crypto.createPrivateKey({ key: privateKey, format: 'pem', passphrase: secret });
+            return { privateKey: key.export({ type: 'pkcs8', format: 'pem' }).toString() };
+        } catch (error) {
+            throw new Error(`Failed to decrypt the private key file "${file.path}": ${errorMessage(error)}`);
+        }
+    }, { ttl: file.ttl });
+};
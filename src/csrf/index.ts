@@ -0,0 +1,345 @@
+import { HosbyAuthError, HosbyHttpError } from "../errors";
+
+/**
+ * Default name of the cookie holding the CSRF token
+ */
+export const DEFAULT_CSRF_COOKIE_NAME = 'hosbyapiservices-X-CSRF-Token';
+
+/**
+ * Error codes reported by servers for a missing, invalid or expired CSRF token
+ */
+export const CSRF_REJECTION_CODES: readonly string[] = ['INVALID_CSRF_TOKEN', 'EBADCSRFTOKEN'];
+
+/**
+ * Payload of the `csrf:refreshed` event
+ */
+export interface CsrfRefresh {
+    /** Method of the request whose CSRF token was rejected */
+    readonly method: string;
+    /** Path of the request whose CSRF token was rejected */
+    readonly path: string;
+}
+
+/**
+ * Checks whether the server rejected a request because of its CSRF token
+ * @param error The error thrown by the request
+ * @returns true for 401/403 errors with a CSRF error code or a message mentioning CSRF, and for 419 errors
+ */
+export const isCsrfRejectionError = (error: unknown): boolean => {
+    if (error instanceof HosbyHttpError && error.status === 419) {
+        return true;
+    }
+    if (!(error instanceof HosbyAuthError)) {
+        return false;
+    }
+    const code = (error.payload as { code?: unknown } | undefined)?.code;
+    return (typeof code === 'string' && CSRF_REJECTION_CODES.includes(code.toUpperCase())) || /csrf/i.test(error.message);
+};
+
+/**
+ * Storage of the CSRF token, and of the cookies of the API where the runtime does not handle them.
+ * Methods may be synchronous or return promises, so the token can live in memory,
+ * in `document.cookie` or in a session shared by several server instances.
+ * @example
+ * ```typescript
+ * const store: CsrfStore = {
+ *   getToken: () => session.csrfToken,
+ *   setToken: (token) => { session.csrfToken = token; },
+ *   clearToken: () => { delete session.csrfToken; }
+ * };
+ * ```
+ */
+export interface CsrfStore {
+    /** Reads the CSRF token, or undefined if there is none */
+    getToken(): string | undefined | Promise<string | undefined>;
+    /** Writes the CSRF token */
+    setToken(token: string): void | Promise<void>;
+    /** Removes the CSRF token */
+    clearToken(): void | Promise<void>;
+    /**
+     * Builds the `Cookie` header of a request.
+     * Only needed outside browsers, where the runtime does not send cookies.
+     */
+    getCookieHeader?(url: string): string | undefined | Promise<string | undefined>;
+    /**
+     * Stores the `Set-Cookie` headers of a response.
+     * Only needed outside browsers, where the runtime does not store cookies.
+     */
+    setCookies?(url: string, setCookieHeaders: readonly string[]): void | Promise<void>;
+}
+
+/**
+ * Options of {@link createBrowserCookieCsrfStore}
+ */
+export interface BrowserCookieCsrfStoreOptions {
+    /**
+     * Name of the CSRF cookie. This should match the name used by your server.
+     * Defaults to 'hosbyapiservices-X-CSRF-Token'.
+     */
+    cookieName?: string;
+    /**
+     * Lifetime of the cookie in days.
+     * Defaults to 7.
+     */
+    days?: number;
+}
+
+/**
+ * Options of {@link createCookieJarCsrfStore}
+ */
+export interface CookieJarCsrfStoreOptions {
+    /**
+     * Name of the CSRF cookie. This should match the name used by your server.
+     * Defaults to 'hosbyapiservices-X-CSRF-Token'.
+     */
+    cookieName?: string;
+}
+
+/**
+ * Cookie kept by the cookie jar
+ */
+interface StoredCookie {
+    readonly name: string;
+    readonly value: string;
+    readonly domain: string;
+    readonly hostOnly: boolean;
+    readonly path: string;
+    readonly secure: boolean;
+    /** Expiration time, in milliseconds since the epoch, or undefined for session cookies */
+    readonly expiresAt?: number;
+}
+
+/**
+ * Splits a `Set-Cookie` header folded into a single comma-separated value
+ * @param value Header value, as returned by `headers.get('set-cookie')`
+ * @returns The individual `Set-Cookie` headers
+ */
+const splitSetCookieHeader = (value: string): string[] => {
+    // Commas also appear in Expires dates, so only split before the name=value pair of a new cookie
+    return value.split(/,(?=\s*[^;,=\s]+=)/).map(part => part.trim()).filter(Boolean);
+};
+
+/**
+ * Reads the `Set-Cookie` headers of a response
+ * @param headers Response headers, with `getSetCookie` when the runtime supports it
+ * @returns The individual `Set-Cookie` headers, empty if there is none
+ */
+export const getSetCookieHeaders = (headers: { get(name: string): string | null; getSetCookie?(): string[] }): string[] => {
+    if (typeof headers.getSetCookie === 'function') {
+        return headers.getSetCookie();
+    }
+    const value = headers.get('set-cookie');
+    return value ? splitSetCookieHeader(value) : [];
+};
+
+/**
+ * Computes the default path of a cookie from the path of the request that set it
+ * @param pathname Request path
+ * @returns The path up to, but not including, its last slash, or '/'
+ */
+const defaultCookiePath = (pathname: string): string => {
+    const lastSlash = pathname.lastIndexOf('/');
+    return lastSlash <= 0 ? '/' : pathname.slice(0, lastSlash);
+};
+
+/**
+ * Checks whether a host belongs to a cookie domain
+ */
+const domainMatches = (host: string, domain: string): boolean =>
+    host === domain || host.endsWith(`.${domain}`);
+
+/**
+ * Checks whether a request path is within a cookie path
+ */
+const pathMatches = (pathname: string, cookiePath: string): boolean =>
+    pathname === cookiePath ||
+    (pathname.startsWith(cookiePath) && (cookiePath.endsWith('/') || pathname.charAt(cookiePath.length) === '/'));
+
+/**
+ * Parses a `Set-Cookie` header received from a URL
+ * @param header The `Set-Cookie` header
+ * @param url URL of the response
+ * @param now Current time, in milliseconds since the epoch
+ * @returns The cookie, or undefined if it must be ignored
+ */
+const parseSetCookie = (header: string, url: URL, now: number): StoredCookie | undefined => {
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+        return undefined;
+    }
+    const host = url.hostname.toLowerCase();
+    let domain = host;
+    let hostOnly = true;
+    let path = defaultCookiePath(url.pathname);
+    let secure = false;
+    let expiresAt: number | undefined;
+    let maxAge: number | undefined;
+
+    for (const attribute of attributes) {
+        const index = attribute.indexOf('=');
+        const name = (index < 0 ? attribute : attribute.slice(0, index)).trim().toLowerCase();
+        const value = index < 0 ? '' : attribute.slice(index + 1).trim();
+        if (name === 'domain' && value) {
+            domain = value.replace(/^\./, '').toLowerCase();
+            hostOnly = false;
+        } else if (name === 'path' && value.startsWith('/')) {
+            path = value;
+        } else if (name === 'secure') {
+            secure = true;
+        } else if (name === 'max-age' && /^-?\d+$/.test(value)) {
+            maxAge = Number(value);
+        } else if (name === 'expires') {
+            const date = Date.parse(value);
+            if (!Number.isNaN(date)) {
+                expiresAt = date;
+            }
+        }
+    }
+
+    // A server may only set cookies for its own domain or a parent domain
+    if (!domainMatches(host, domain)) {
+        return undefined;
+    }
+    return {
+        name: pair.slice(0, separator).trim(),
+        value: pair.slice(separator + 1).trim(),
+        domain,
+        hostOnly,
+        path,
+        secure,
+        // Max-Age takes precedence over Expires
+        expiresAt: maxAge !== undefined ? now + maxAge * 1000 : expiresAt
+    };
+};
+
+/**
+ * Creates a CSRF store that keeps the token in memory
+ * @returns An in-memory CSRF store
+ */
+export const createMemoryCsrfStore = (): CsrfStore => {
+    let token: string | undefined;
+    return {
+        getToken: () => token,
+        setToken: (value) => {
+            token = value;
+        },
+        clearToken: () => {
+            token = undefined;
+        }
+    };
+};
+
+/**
+ * Creates a CSRF store that keeps the token in a cookie of the page, through `document.cookie`.
+ * This is the default store in browsers, where the browser itself sends and stores the cookies of the API.
+ * @param options Name and lifetime of the cookie
+ * @returns A CSRF store backed by `document.cookie`
+ * @throws {Error} When reading or writing the cookie outside a browser
+ */
+export const createBrowserCookieCsrfStore = (options: BrowserCookieCsrfStoreOptions = {}): CsrfStore => {
+    const cookieName = options.cookieName ?? DEFAULT_CSRF_COOKIE_NAME;
+    const days = options.days ?? 7;
+
+    // document is resolved on every call, as it may not exist yet when the store is created
+    const getDocument = (): { cookie: string } => {
+        if (typeof document === 'undefined') {
+            throw new Error(`Cannot access cookie ${cookieName}: document.cookie is only available in browsers, use createCookieJarCsrfStore instead`);
+        }
+        return document;
+    };
+    const writeCookie = (value: string, expires: Date): void => {
+        getDocument().cookie = `${cookieName}=${value};expires=${expires.toUTCString()};path=/;SameSite=Strict`;
+    };
+
+    return {
+        getToken: () => {
+            const prefix = `${cookieName}=`;
+            const cookie = getDocument().cookie.split(';')
+                .map(part => part.trim())
+                .find(part => part.indexOf(prefix) === 0);
+            return cookie ? cookie.substring(prefix.length) || undefined : undefined;
+        },
+        setToken: (token) => {
+            writeCookie(token, new Date(Date.now() + days * 24 * 60 * 60 * 1000));
+        },
+        clearToken: () => {
+            writeCookie('', new Date(0));
+        }
+    };
+};
+
+/**
+ * Creates a CSRF store with a cookie jar, for Node.js and other runtimes that do not handle cookies.
+ * The jar stores the `Set-Cookie` headers of the API, honoring their domain, path, expiration and
+ * `Secure` attributes, and replays them in the `Cookie` header of the next requests.
+ * Like in browsers, the token is also sent as the CSRF cookie, unless the server set that cookie itself.
+ * This is the default store outside browsers.
+ * @example
+ * ```typescript
+ * // One jar per user session in a server-side rendering app
+ * const client = new HosbyClient({ ...config, csrfStore: createCookieJarCsrfStore() });
+ * ```
+ * @param options Name of the CSRF cookie
+ * @returns A CSRF store with a cookie jar
+ */
+export const createCookieJarCsrfStore = (options: CookieJarCsrfStoreOptions = {}): CsrfStore => {
+    const cookieName = options.cookieName ?? DEFAULT_CSRF_COOKIE_NAME;
+    const cookies = new Map<string, StoredCookie>();
+    let token: string | undefined;
+
+    /**
+     * Lists the unexpired cookies to send to a URL, the most specific paths first
+     */
+    const matchingCookies = (url: URL): StoredCookie[] => {
+        const now = Date.now();
+        const host = url.hostname.toLowerCase();
+        const matches: StoredCookie[] = [];
+        cookies.forEach((cookie, key) => {
+            if (cookie.expiresAt !== undefined && cookie.expiresAt <= now) {
+                cookies.delete(key);
+                return;
+            }
+            if ((cookie.hostOnly ? host === cookie.domain : domainMatches(host, cookie.domain)) &&
+                pathMatches(url.pathname, cookie.path) &&
+                (!cookie.secure || url.protocol === 'https:')) {
+                matches.push(cookie);
+            }
+        });
+        return matches.sort((a, b) => b.path.length - a.path.length);
+    };
+
+    return {
+        getToken: () => token,
+        setToken: (value) => {
+            token = value;
+        },
+        clearToken: () => {
+            token = undefined;
+        },
+        getCookieHeader: (url) => {
+            const matches = matchingCookies(new URL(url));
+            if (token !== undefined && !matches.some(cookie => cookie.name === cookieName)) {
+                matches.push({ name: cookieName, value: token, domain: '', hostOnly: false, path: '/', secure: false });
+            }
+            return matches.length ? matches.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') : undefined;
+        },
+        setCookies: (url, setCookieHeaders) => {
+            const now = Date.now();
+            const responseURL = new URL(url);
+            setCookieHeaders.forEach(header => {
+                const cookie = parseSetCookie(header, responseURL, now);
+                if (!cookie) {
+                    return;
+                }
+                const key = `${cookie.domain};${cookie.path};${cookie.name}`;
+                if (cookie.expiresAt !== undefined && cookie.expiresAt <= now) {
+                    // Expired cookies are how servers delete them
+                    cookies.delete(key);
+                } else {
+                    cookies.set(key, cookie);
+                }
+            });
+        }
+    };
+};
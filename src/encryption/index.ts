@@ -0,0 +1,343 @@
+import CryptoJS from "crypto-js";
+import { HosbyIntegrityError, HosbyValidationError } from "../errors";
+import { QueryFilter, QueryOperators, QueryOptions } from "../types";
+
+/**
+ * Field encryption modes:
+ * - 'random': a random IV per value, equal values produce different ciphertexts (default)
+ * - 'deterministic': the IV is derived from the value, equal values produce the same ciphertext
+ *   so that equality filters keep working, at the cost of revealing which documents share a value
+ */
+export type EncryptionMode = 'random' | 'deterministic';
+
+/**
+ * Encrypted field of a table, as a dot-separated path (e.g. `profile.ssn`)
+ * or as a path with its encryption mode
+ */
+export type EncryptedField = string | { readonly path: string; readonly mode?: EncryptionMode };
+
+/**
+ * Field-level encryption options
+ * @example
+ * ```typescript
+ * const fieldEncryption: FieldEncryptionConfig = {
+ *   key: process.env.HOSBY_FIELD_KEY, // 32 random bytes, base64 encoded
+ *   fields: {
+ *     users: [{ path: 'email', mode: 'deterministic' }, 'profile.ssn']
+ *   }
+ * };
+ * ```
+ */
+export interface FieldEncryptionConfig {
+    /** 256-bit encryption key encoded as base64, e.g. `crypto.randomBytes(32).toString('base64')` */
+    readonly key: string;
+    /** Encrypted fields of each table */
+    readonly fields: Readonly<Record<string, readonly EncryptedField[]>>;
+    /**
+     * Returns the stored values of encrypted fields that are not encrypted as is instead of rejecting them,
+     * while migrating existing documents. Defaults to false
+     */
+    readonly allowPlaintext?: boolean;
+}
+
+/** Prefix of every encrypted value, followed by the mode and the base64 `iv || ciphertext || mac` */
+const PREFIX = 'hosby:v1:';
+
+/** Length in bytes of the AES-CBC IV */
+const IV_BYTES = 16;
+
+/** Length in bytes of the HMAC-SHA256 tag */
+const MAC_BYTES = 32;
+
+/** Query operators whose operands can be compared with deterministic ciphertexts */
+const EQUALITY_OPERATORS: readonly string[] = ['$eq', '$ne', '$in', '$nin'];
+
+/** Single-character code of each mode in the encrypted values */
+const MODE_CODES: Record<EncryptionMode, string> = { random: 'r', deterministic: 'd' };
+
+/**
+ * Checks whether a value is a plain object, as opposed to arrays, dates and other instances
+ * @param value The value
+ * @returns true for object literals
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Replaces the value at a path, copying the objects along the path. Arrays are traversed element by element.
+ * @param value The document
+ * @param segments Segments of the path
+ * @param replace Computes the new value from the current one
+ * @returns The updated copy, or the value itself when the path is absent
+ */
+const updatePath = (value: unknown, segments: readonly string[], replace: (current: unknown) => unknown): unknown => {
+    if (Array.isArray(value)) {
+        return value.map(item => updatePath(item, segments, replace));
+    }
+    const [head, ...rest] = segments;
+    if (!isPlainObject(value) || value[head] === undefined || value[head] === null) {
+        return value;
+    }
+    return { ...value, [head]: rest.length ? updatePath(value[head], rest, replace) : replace(value[head]) };
+};
+
+/**
+ * Compares two strings in constant time
+ * @param a First string
+ * @param b Second string
+ * @returns true when both strings are equal
+ */
+const safeEqual = (a: string, b: string): boolean => {
+    let diff = a.length ^ b.length;
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+    }
+    return diff === 0;
+};
+
+/**
+ * Encrypts and decrypts configured document fields with AES-256-CBC and HMAC-SHA256 (encrypt-then-MAC).
+ * Values are serialized as JSON before encryption. The table and the path are authenticated with each value,
+ * so a ciphertext copied to another field fails to decrypt.
+ * @example
+ * ```typescript
+ * const encryptor = new FieldEncryptor({ key, fields: { users: ['ssn'] } });
+ * const stored = encryptor.encryptDocument('users', { name: 'Ada', ssn: '123-45-6789' });
+ * encryptor.decryptDocument('users', stored); // { name: 'Ada', ssn: '123-45-6789' }
+ * ```
+ */
+export class FieldEncryptor {
+    private readonly fields = new Map<string, Map<string, EncryptionMode>>();
+    private readonly encryptionKey: CryptoJS.lib.WordArray;
+    private readonly macKey: CryptoJS.lib.WordArray;
+    private readonly ivKey: CryptoJS.lib.WordArray;
+    private readonly allowPlaintext: boolean;
+
+    /**
+     * Creates a new FieldEncryptor instance
+     * @param config - The encryption key and the encrypted fields of each table
+     * @throws {Error} When the key is not 32 bytes of base64, or a field is invalid
+     */
+    constructor(config: FieldEncryptionConfig) {
+        const { key, fields, allowPlaintext = false } = config ?? {};
+        const master = typeof key === 'string' ? CryptoJS.enc.Base64.parse(key) : undefined;
+        if (!master || master.sigBytes !== 32) {
+            throw new Error('Field encryption key must be 32 bytes encoded as base64');
+        }
+        this.encryptionKey = CryptoJS.HmacSHA256('hosby-field-encryption', master);
+        this.macKey = CryptoJS.HmacSHA256('hosby-field-authentication', master);
+        this.ivKey = CryptoJS.HmacSHA256('hosby-field-iv', master);
+        this.allowPlaintext = allowPlaintext;
+
+        Object.entries(fields ?? {}).forEach(([table, tableFields]) => {
+            const modes = new Map<string, EncryptionMode>();
+            tableFields.forEach(field => {
+                const { path, mode = 'random' } = typeof field === 'string' ? { path: field } : field ?? {};
+                if (!path || typeof path !== 'string') {
+                    throw new Error(`Encrypted field of table "${table}" requires a path`);
+                }
+                if (mode !== 'random' && mode !== 'deterministic') {
+                    throw new Error(`Invalid encryption mode "${mode}" for field "${path}". Expected "random" or "deterministic"`);
+                }
+                modes.set(path, mode);
+            });
+            this.fields.set(table, modes);
+        });
+    }
+
+    /**
+     * Encrypts a value of a field
+     * @param table - Name of the table/collection
+     * @param path - Path of the field
+     * @param value - JSON-serializable value
+     * @param mode - Encryption mode. Defaults to the mode of the field, or 'random'
+     * @returns The encrypted value
+     */
+    public encryptValue(table: string, path: string, value: unknown, mode = this.fields.get(table)?.get(path) ?? 'random'): string {
+        const code = MODE_CODES[mode];
+        const associated = `${PREFIX}${code}:${table}:${path}:`;
+        const json = JSON.stringify(value);
+        // The deterministic IV is a keyed hash of the field and the value: only equal values share a ciphertext
+        const iv = mode === 'deterministic'
+            ? CryptoJS.lib.WordArray.create(CryptoJS.HmacSHA256(associated + json, this.ivKey).words.slice(0, IV_BYTES / 4), IV_BYTES)
+            : CryptoJS.lib.WordArray.random(IV_BYTES);
+        const { ciphertext } = CryptoJS.AES.encrypt(
+            CryptoJS.enc.Utf8.parse(json),
+            this.encryptionKey,
+            { iv, mode: CryptoJS.mode.CBC, padding: CryptoJS.pad.Pkcs7 }
+        );
+        const mac = CryptoJS.HmacSHA256(CryptoJS.enc.Utf8.parse(associated).concat(iv).concat(ciphertext), this.macKey);
+        return `${PREFIX}${code}:${iv.clone().concat(ciphertext).concat(mac).toString(CryptoJS.enc.Base64)}`;
+    }
+
+    /**
+     * Decrypts a value of a field. Values that are not encrypted are rejected, or returned unchanged with `allowPlaintext`.
+     * @param table - Name of the table/collection
+     * @param path - Path of the field
+     * @param value - The stored value
+     * @returns The decrypted value
+     * @throws {HosbyIntegrityError} When the value is not encrypted, was altered, belongs to another field
+     * or was encrypted with another key
+     */
+    public decryptValue(table: string, path: string, value: unknown): unknown {
+        if (typeof value !== 'string' || !value.startsWith(PREFIX)) {
+            if (this.allowPlaintext) {
+                return value;
+            }
+            throw new HosbyIntegrityError('missing', `Encrypted field "${path}" of table "${table}" is not encrypted`);
+        }
+        const fail = () => new HosbyIntegrityError('invalid', `Encrypted field "${path}" of table "${table}" failed authentication`);
+        const [code, encoded = ''] = value.slice(PREFIX.length).split(':');
+        const hex = CryptoJS.enc.Base64.parse(encoded).toString(CryptoJS.enc.Hex);
+        if (!Object.values(MODE_CODES).includes(code) || hex.length <= (IV_BYTES + MAC_BYTES) * 2) {
+            throw fail();
+        }
+
+        const iv = CryptoJS.enc.Hex.parse(hex.slice(0, IV_BYTES * 2));
+        const ciphertext = CryptoJS.enc.Hex.parse(hex.slice(IV_BYTES * 2, -MAC_BYTES * 2));
+        const associated = `${PREFIX}${code}:${table}:${path}:`;
+        const mac = CryptoJS.HmacSHA256(CryptoJS.enc.Utf8.parse(associated).concat(iv).concat(ciphertext), this.macKey);
+        if (!safeEqual(mac.toString(CryptoJS.enc.Hex), hex.slice(-MAC_BYTES * 2))) {
+            throw fail();
+        }
+        try {
+            const plaintext = CryptoJS.AES.decrypt(
+                CryptoJS.lib.CipherParams.create({ ciphertext }),
+                this.encryptionKey,
+                { iv, mode: CryptoJS.mode.CBC, padding: CryptoJS.pad.Pkcs7 }
+            );
+            return JSON.parse(plaintext.toString(CryptoJS.enc.Utf8));
+        } catch {
+            throw fail();
+        }
+    }
+
+    /**
+     * Encrypts the configured fields of a document, of an array of documents,
+     * and of the objects under update operators such as `$set`. Dotted keys matching a path are encrypted too.
+     * @param table - Name of the table/collection
+     * @param document - The document(s) to send
+     * @returns A copy with encrypted fields, or the document itself for tables without encrypted fields
+     */
+    public encryptDocument<D>(table: string, document: D): D {
+        const modes = this.fields.get(table);
+        if (!modes?.size) {
+            return document;
+        }
+        const encrypt = (value: unknown): unknown => {
+            if (Array.isArray(value)) {
+                return value.map(encrypt);
+            }
+            if (!isPlainObject(value)) {
+                return value;
+            }
+            let result: Record<string, unknown> = value;
+            modes.forEach((mode, path) => {
+                result = updatePath(result, path.split('.'), current => this.encryptValue(table, path, current, mode)) as Record<string, unknown>;
+                if (path.includes('.') && result[path] !== undefined && result[path] !== null) {
+                    result = { ...result, [path]: this.encryptValue(table, path, result[path], mode) };
+                }
+            });
+            Object.keys(result).filter(key => key.startsWith('$')).forEach(key => {
+                result = { ...result, [key]: encrypt(result[key]) };
+            });
+            return result;
+        };
+        return encrypt(document) as D;
+    }
+
+    /**
+     * Decrypts the configured fields of a document or of an array of documents
+     * @param table - Name of the table/collection
+     * @param document - The document(s) received
+     * @returns A copy with decrypted fields, or the document itself for tables without encrypted fields
+     * @throws {HosbyIntegrityError} When an encrypted value fails authentication
+     */
+    public decryptDocument<D>(table: string, document: D): D {
+        const modes = this.fields.get(table);
+        if (!modes?.size) {
+            return document;
+        }
+        let result: unknown = document;
+        modes.forEach((_, path) => {
+            result = updatePath(result, path.split('.'), current => this.decryptValue(table, path, current));
+        });
+        return result as D;
+    }
+
+    /**
+     * Encrypts the values of the filters on deterministic fields, so that equality lookups match the stored ciphertexts
+     * @param table - Name of the table/collection
+     * @param filters - The query filters
+     * @returns A copy with encrypted values, or the filters themselves for tables without encrypted fields
+     * @throws {HosbyValidationError} When a filter targets a field encrypted in 'random' mode
+     */
+    public encryptFilters(table: string, filters: QueryFilter[] | undefined): QueryFilter[] | undefined {
+        const modes = this.fields.get(table);
+        if (!filters?.length || !modes?.size) {
+            return filters;
+        }
+        return filters.map(filter => {
+            const mode = modes.get(filter?.field);
+            if (!mode || filter.value === undefined || filter.value === null) {
+                return filter;
+            }
+            if (mode === 'random') {
+                throw new HosbyValidationError(
+                    `Field "${filter.field}" of table "${table}" uses random encryption and cannot be filtered, use the deterministic mode`
+                );
+            }
+            return { ...filter, value: this.encryptValue(table, filter.field, filter.value, mode) };
+        });
+    }
+
+    /**
+     * Encrypts the operands of the `query` option on deterministic fields, so that it matches the stored ciphertexts
+     * instead of sending the plaintext in the `x-query` header
+     * @param table - Name of the table/collection
+     * @param options - The query options
+     * @returns A copy with encrypted operands, or the options themselves when the query has no encrypted field
+     * @throws {HosbyValidationError} When the query targets a field encrypted in 'random' mode,
+     * or compares a deterministic field with an operator other than `$eq`, `$ne`, `$in` and `$nin`
+     */
+    public encryptQuery(table: string, options: QueryOptions | undefined): QueryOptions | undefined {
+        const modes = this.fields.get(table);
+        const query = options?.query;
+        if (!query || !modes?.size || !Object.keys(query).some(field => modes.has(field))) {
+            return options;
+        }
+        const encrypted: Record<string, QueryOperators> = {};
+        Object.entries(query).forEach(([field, operators]) => {
+            const mode = modes.get(field);
+            if (!mode || operators === undefined || operators === null) {
+                encrypted[field] = operators;
+                return;
+            }
+            if (mode === 'random') {
+                throw new HosbyValidationError(
+                    `Field "${field}" of table "${table}" uses random encryption and cannot be queried, use the deterministic mode`
+                );
+            }
+            if (!isPlainObject(operators)) {
+                // A bare value is an implicit equality
+                encrypted[field] = this.encryptValue(table, field, operators, mode) as QueryOperators;
+                return;
+            }
+            const result: Record<string, unknown> = {};
+            Object.entries(operators).forEach(([operator, operand]) => {
+                if (!EQUALITY_OPERATORS.includes(operator)) {
+                    throw new HosbyValidationError(
+                        `Field "${field}" of table "${table}" is encrypted and only supports the ${EQUALITY_OPERATORS.join(', ')} operators, received ${operator}`
+                    );
+                }
+                result[operator] = operand === undefined || operand === null
+                    ? operand
+                    : Array.isArray(operand)
+                        ? operand.map(item => this.encryptValue(table, field, item, mode))
+                        : this.encryptValue(table, field, operand, mode);
+            });
+            encrypted[field] = result;
+        });
+        return { ...options, query: encrypted };
+    }
+}
@@ -0,0 +1,238 @@
+/**
+ * Details attached to a {@link HosbyError}
+ */
+export interface HosbyErrorOptions {
+    /** HTTP status code, or a status-like code for client-side failures */
+    readonly status?: number;
+    /** Error payload returned by the server, if any */
+    readonly payload?: unknown;
+    /** HTTP method of the failed request */
+    readonly method?: string;
+    /** Path of the failed request, relative to the project (e.g. `users/find`) */
+    readonly path?: string;
+    /** Request identifier reported by the server in the `x-request-id` header or payload */
+    readonly requestId?: string;
+    /** Underlying error, if any */
+    readonly cause?: unknown;
+}
+
+/**
+ * Base class of every error thrown by the client
+ * @example
+ * ```typescript
+ * try {
+ *   await client.find('users');
+ * } catch (error) {
+ *   if (error instanceof HosbyError) {
+ *     console.error(`${error.method} ${error.path} failed with ${error.status}`, error.requestId);
+ *   }
+ * }
+ * ```
+ */
+export class HosbyError extends Error {
+    /** Always false, mirrors the `success` flag of {@link ApiResponse} */
+    readonly success = false;
+    /** HTTP status code, or a status-like code for client-side failures */
+    readonly status: number;
+    /** Error payload returned by the server, if any */
+    readonly payload?: unknown;
+    /** `data` field of the server payload, mirrors {@link ApiResponse.data} */
+    readonly data?: unknown;
+    /** HTTP method of the failed request */
+    readonly method?: string;
+    /** Path of the failed request */
+    readonly path?: string;
+    /** Request identifier reported by the server */
+    readonly requestId?: string;
+    /** Underlying error, if any */
+    readonly cause?: unknown;
+
+    constructor(message: string, options: HosbyErrorOptions = {}) {
+        super(message);
+        this.name = 'HosbyError';
+        this.status = options.status ?? 500;
+        this.payload = options.payload;
+        this.data = (options.payload as { data?: unknown } | undefined)?.data;
+        this.method = options.method;
+        this.path = options.path;
+        this.requestId = options.requestId;
+        this.cause = options.cause;
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+/**
+ * Error thrown when the server answers with a non-2xx status
+ */
+export class HosbyHttpError extends HosbyError {
+    /** Delay in milliseconds requested by the server through `Retry-After`, if any */
+    readonly retryAfter?: number;
+
+    constructor(message: string, options: HosbyErrorOptions & { retryAfter?: number } = {}) {
+        super(message, options);
+        this.name = 'HosbyHttpError';
+        this.retryAfter = options.retryAfter;
+    }
+}
+
+/**
+ * Error thrown when the server rejects the credentials (401 or 403)
+ */
+export class HosbyAuthError extends HosbyHttpError {
+    constructor(message: string, options: HosbyErrorOptions & { retryAfter?: number } = {}) {
+        super(message, options);
+        this.name = 'HosbyAuthError';
+    }
+}
+
+/**
+ * Error thrown when the server reports a conflict (409)
+ */
+export class HosbyConflictError extends HosbyHttpError {
+    constructor(message: string, options: HosbyErrorOptions & { retryAfter?: number } = {}) {
+        super(message, options);
+        this.name = 'HosbyConflictError';
+    }
+}
+
+/**
+ * Error thrown when the server rate limits the client (429)
+ */
+export class HosbyRateLimitError extends HosbyHttpError {
+    constructor(message: string, options: HosbyErrorOptions & { retryAfter?: number } = {}) {
+        super(message, options);
+        this.name = 'HosbyRateLimitError';
+    }
+}
+
+/**
+ * Error thrown for invalid arguments, either detected by the client
+ * before sending the request or reported by the server (400 or 422)
+ */
+export class HosbyValidationError extends HosbyError {
+    constructor(message: string, options: HosbyErrorOptions = {}) {
+        super(message, { status: 400, ...options });
+        this.name = 'HosbyValidationError';
+    }
+}
+
+/**
+ * Error thrown when the request could not reach the server
+ */
+export class HosbyNetworkError extends HosbyError {
+    constructor(message: string, options: HosbyErrorOptions = {}) {
+        super(message, { status: 0, ...options });
+        this.name = 'HosbyNetworkError';
+    }
+}
+
+/**
+ * Error thrown when a request exceeds its configured timeout
+ */
+export class HosbyTimeoutError extends HosbyError {
+    /** Timeout that was exceeded, in milliseconds */
+    readonly timeout: number;
+
+    constructor(timeout: number, message = 'Request timed out', options: HosbyErrorOptions = {}) {
+        super(message, { status: 408, ...options });
+        this.name = 'HosbyTimeoutError';
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Error thrown when a request is cancelled through an `AbortSignal`
+ */
+export class HosbyAbortError extends HosbyError {
+    /** Abort reason provided by the signal, if any */
+    readonly reason?: unknown;
+
+    constructor(reason?: unknown, message = 'Request was aborted', options: HosbyErrorOptions = {}) {
+        super(message, { status: 499, ...options });
+        this.name = 'HosbyAbortError';
+        this.reason = reason;
+    }
+}
+
+/**
+ * Error thrown without sending the request while the circuit breaker is open
+ */
+export class HosbyCircuitOpenError extends HosbyError {
+    /** Delay in milliseconds before the circuit lets a trial request through */
+    readonly retryAfter: number;
+
+    constructor(retryAfter: number, message = 'Circuit breaker is open', options: HosbyErrorOptions = {}) {
+        super(message, { status: 503, ...options });
+        this.name = 'HosbyCircuitOpenError';
+        this.retryAfter = retryAfter;
+    }
+}
+
+/**
+ * Reason of a failed integrity check:
+ * - 'missing': the response has no signature or timestamp header, or an encrypted field holds a value that is not encrypted
+ * - 'expired': the response timestamp is outside the accepted window
+ * - 'invalid': the signature does not match the status, timestamp and body of the response,
+ *   or an encrypted field fails authentication
+ */
+export type IntegrityFailure = 'missing' | 'expired' | 'invalid';
+
+/**
+ * Error thrown when a response fails the signature check configured with `serverPublicKey`,
+ * or an encrypted field of a response cannot be authenticated.
+ * The response may have been altered on its way from the server, it is never returned.
+ */
+export class HosbyIntegrityError extends HosbyError {
+    /** Reason of the failed check */
+    readonly reason: IntegrityFailure;
+
+    constructor(reason: IntegrityFailure, message = 'Response signature is invalid', options: HosbyErrorOptions = {}) {
+        super(message, options);
+        this.name = 'HosbyIntegrityError';
+        this.reason = reason;
+    }
+}
+
+/**
+ * Error thrown when the TLS certificate of the server does not match the pins of a transport
+ * created with `createPinnedTransport`. The connection may be intercepted, the request is never retried.
+ */
+export class HosbyCertificateError extends HosbyError {
+    /** Hostname of the rejected server */
+    readonly host: string;
+    /** SHA-256 fingerprint of the public key presented by the server, as `SHA256:` followed by unpadded base64 */
+    readonly fingerprint: string;
+
+    constructor(host: string, fingerprint: string, message = `Certificate of ${host} does not match any pinned public key`, options: HosbyErrorOptions = {}) {
+        super(message, { status: 495, ...options });
+        this.name = 'HosbyCertificateError';
+        this.host = host;
+        this.fingerprint = fingerprint;
+    }
+}
+
+/**
+ * Creates the error matching an HTTP error status
+ * @param message Error message
+ * @param options Error details, `status` selects the error class
+ * @returns The most specific {@link HosbyError} subclass for the status
+ */
+export const createHttpError = (
+    message: string,
+    options: HosbyErrorOptions & { status: number; retryAfter?: number }
+): HosbyError => {
+    switch (options.status) {
+        case 400:
+        case 422:
+            return new HosbyValidationError(message, options);
+        case 401:
+        case 403:
+            return new HosbyAuthError(message, options);
+        case 409:
+            return new HosbyConflictError(message, options);
+        case 429:
+            return new HosbyRateLimitError(message, options);
+        default:
+            return new HosbyHttpError(message, options);
+    }
+};
@@ -0,0 +1,77 @@
+import type { CircuitChange } from "../breaker";
+import type { CsrfRefresh } from "../csrf";
+import type { QueueStats } from "../limiter";
+
+/**
+ * Events emitted by the client, mapped to their payload
+ */
+export interface ClientEvents {
+    /** The request queue depth or the number of running requests changed */
+    'queue:change': QueueStats;
+    /** The circuit breaker changed state */
+    'circuit:change': CircuitChange;
+    /** A rejected CSRF token was replaced by a new one */
+    'csrf:refreshed': CsrfRefresh;
+}
+
+/**
+ * Listener of a client event
+ */
+export type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter
+ * @template Events Map of event names to payload types
+ * @example
+ * ```typescript
+ * const events = new EventEmitter<{ 'queue:change': QueueStats }>();
+ * const unsubscribe = events.on('queue:change', stats => console.log(stats.pending));
+ * events.emit('queue:change', { pending: 1, running: 4 });
+ * unsubscribe();
+ * ```
+ */
+export class EventEmitter<Events extends object> {
+    private readonly listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+    /**
+     * Registers a listener
+     * @param event - Name of the event
+     * @param listener - Called with the event payload
+     * @returns A function removing the listener
+     * @throws {Error} When listener is not a function
+     */
+    public on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+        if (typeof listener !== 'function') {
+            throw new Error('Event listener must be a function');
+        }
+        const listeners = this.listeners.get(event) ?? new Set();
+        listeners.add(listener);
+        this.listeners.set(event, listeners);
+        return () => this.off(event, listener);
+    }
+
+    /**
+     * Removes a listener
+     * @param event - Name of the event
+     * @param listener - The listener passed to {@link EventEmitter.on}
+     */
+    public off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+        this.listeners.get(event)?.delete(listener);
+    }
+
+    /**
+     * Calls the listeners of an event.
+     * Errors thrown by listeners are ignored so that they cannot break requests.
+     * @param event - Name of the event
+     * @param payload - Payload passed to the listeners
+     */
+    public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        this.listeners.get(event)?.forEach(listener => {
+            try {
+                (listener as Listener<Events[K]>)(payload);
+            } catch {
+                // Listener errors must not affect the request lifecycle
+            }
+        });
+    }
+}
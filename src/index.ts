@@ -1,6 +1,11 @@
-import { BaseClient, SecureClientConfig } from './clients/BaseClient';
+import { BaseClient, ErrorModeConfig, SecureClientConfig } from './clients/BaseClient';
 import { HosbyClient as CrudClient } from './clients/crud';
-import { BaseClientConfig } from './types';
+import { CircuitState } from './breaker';
+import { ClientEvents, Listener } from './events';
+import { RotateKeyOptions, SigningKey } from './keys';
+import { QueueStats } from './limiter';
+import { Middleware } from './middleware';
+import { BaseClientConfig, ErrorMode } from './types';
 
 /**
  * Main client class for interacting with the Hosby API.
@@ -20,76 +25,193 @@ import { BaseClientConfig } from './types';
  * 
  * await client.init();
 */
-export class HosbyClient {
-  private readonly baseClient: BaseClient;
-  private readonly crudClient: CrudClient;
+export class HosbyClient<M extends ErrorMode = 'throw'> {
+  private readonly baseClient: BaseClient<M>;
+  private readonly crudClient: CrudClient<M>;
 
   /**
    * Creates a new HosbyClient instance
    * @param config - Configuration options for the client
    * @throws {Error} When config is not provided
    */
-  constructor(config: BaseClientConfig | SecureClientConfig) {
+  constructor(config: (BaseClientConfig | SecureClientConfig) & ErrorModeConfig<M>) {
     if (!config) {
       throw new Error('Configuration is required');
     }
-    this.baseClient = new BaseClient(config);
-    this.crudClient = new CrudClient(this.baseClient);
+    this.baseClient = new BaseClient<M>(config);
+    this.crudClient = new CrudClient<M>(this.baseClient);
 
 
     // Bind CRUD methods
-    this.find = (...args) => this.crudClient.get.find(...args);
-    this.find = (...args) => this.crudClient.get.find(...args);
-    this.findById = (...args) => this.crudClient.get.findById(...args);
-    this.findByEmail = (...args) => this.crudClient.get.findByEmail(...args);
-    this.findByToken = (...args) => this.crudClient.get.findByToken(...args);
-    this.distinct = (...args) => this.crudClient.get.distinct(...args);
-    this.aggregate = (...args) => this.crudClient.get.aggregate(...args);
-    this.count = (...args) => this.crudClient.get.count(...args);
-    this.findAndPopulate = (...args) => this.crudClient.get.findAndPopulate(...args);
-    this.findEqual = (...args) => this.crudClient.get.findEqual(...args);
-    this.findLessThan = (...args) => this.crudClient.get.findLessThan(...args);
-    this.findGreaterThan = (...args) => this.crudClient.get.findGreaterThan(...args);
-    this.findByField = (...args) => this.crudClient.get.findByField(...args);
-    this.findUnique = (...args) => this.crudClient.get.findUnique(...args);
-    this.findFirst = (...args) => this.crudClient.get.findFirst(...args);
-
-    this.insertOne = (...args) => this.crudClient.post.insertOne(...args);
-    this.insertMany = (...args) => this.crudClient.post.insertMany(...args);
-    this.upsert = (...args) => this.crudClient.post.upsert(...args);
-
-    this.replaceOne = (...args) => this.crudClient.put.replaceOne(...args);
-    this.findOneAndReplace = (...args) => this.crudClient.put.findOneAndReplace(...args);
-
-    this.updateOne = (...args) => this.crudClient.patch.updateOne(...args);
-    this.updateMany = (...args) => this.crudClient.patch.updateMany(...args);
-    this.findOneAndUpdate = (...args) => this.crudClient.patch.findOneAndUpdate(...args);
-
-    this.deleteOne = (...args) => this.crudClient.delete.deleteOne(...args);
-    this.deleteMany = (...args) => this.crudClient.delete.deleteMany(...args);
-    this.deleteByField = (...args) => this.crudClient.delete.deleteByField(...args);
-    this.deleteByToken = (...args) => this.crudClient.delete.deleteByToken(...args);
-    this.deleteById = (...args) => this.crudClient.delete.deleteById(...args);
-    this.findOneAndDelete = (...args) => this.crudClient.delete.findOneAndDelete(...args);
-
-    this.login = (...args) => this.crudClient.auth.login(...args)
-    this.logout = (...args) => this.crudClient.auth.logout(...args);
-
-    this.bulkInsert = (...args) => this.crudClient.bulk.bulkInsert(...args);
-    this.bulkUpdate = (...args) => this.crudClient.bulk.bulkUpdate(...args);
-    this.bulkDelete = (...args) => this.crudClient.bulk.bulkDelete(...args);
+    this.find = this.crudClient.get.find.bind(this.crudClient.get);
+    this.find = this.crudClient.get.find.bind(this.crudClient.get);
+    this.findById = this.crudClient.get.findById.bind(this.crudClient.get);
+    this.findByEmail = this.crudClient.get.findByEmail.bind(this.crudClient.get);
+    this.findByToken = this.crudClient.get.findByToken.bind(this.crudClient.get);
+    this.distinct = this.crudClient.get.distinct.bind(this.crudClient.get);
+    this.aggregate = this.crudClient.get.aggregate.bind(this.crudClient.get);
+    this.count = this.crudClient.get.count.bind(this.crudClient.get);
+    this.findAndPopulate = this.crudClient.get.findAndPopulate.bind(this.crudClient.get);
+    this.findEqual = this.crudClient.get.findEqual.bind(this.crudClient.get);
+    this.findLessThan = this.crudClient.get.findLessThan.bind(this.crudClient.get);
+    this.findGreaterThan = this.crudClient.get.findGreaterThan.bind(this.crudClient.get);
+    this.findByField = this.crudClient.get.findByField.bind(this.crudClient.get);
+    this.findUnique = this.crudClient.get.findUnique.bind(this.crudClient.get);
+    this.findFirst = this.crudClient.get.findFirst.bind(this.crudClient.get);
+
+    this.insertOne = this.crudClient.post.insertOne.bind(this.crudClient.post);
+    this.insertMany = this.crudClient.post.insertMany.bind(this.crudClient.post);
+    this.upsert = this.crudClient.post.upsert.bind(this.crudClient.post);
+
+    this.replaceOne = this.crudClient.put.replaceOne.bind(this.crudClient.put);
+    this.findOneAndReplace = this.crudClient.put.findOneAndReplace.bind(this.crudClient.put);
+
+    this.updateOne = this.crudClient.patch.updateOne.bind(this.crudClient.patch);
+    this.updateMany = this.crudClient.patch.updateMany.bind(this.crudClient.patch);
+    this.findOneAndUpdate = this.crudClient.patch.findOneAndUpdate.bind(this.crudClient.patch);
+
+    this.deleteOne = this.crudClient.delete.deleteOne.bind(this.crudClient.delete);
+    this.deleteMany = this.crudClient.delete.deleteMany.bind(this.crudClient.delete);
+    this.deleteByField = this.crudClient.delete.deleteByField.bind(this.crudClient.delete);
+    this.deleteByToken = this.crudClient.delete.deleteByToken.bind(this.crudClient.delete);
+    this.deleteById = this.crudClient.delete.deleteById.bind(this.crudClient.delete);
+    this.findOneAndDelete = this.crudClient.delete.findOneAndDelete.bind(this.crudClient.delete);
+
+    this.login = this.crudClient.auth.login.bind(this.crudClient.auth);
+    this.logout = this.crudClient.auth.logout.bind(this.crudClient.auth);
+
+    this.bulkInsert = this.crudClient.bulk.bulkInsert.bind(this.crudClient.bulk);
+    this.bulkUpdate = this.crudClient.bulk.bulkUpdate.bind(this.crudClient.bulk);
+    this.bulkDelete = this.crudClient.bulk.bulkDelete.bind(this.crudClient.bulk);
   }
 
   /**
    * Initializes the client by fetching a CSRF token.
    * Must be called before making any requests.
    * 
-   * @throws Error if token fetch fails
+   * @throws HosbyHttpError if the server does not return a CSRF token
+   * @throws HosbyError if the token request fails
    */
   public async init(): Promise<void> {
     await this.baseClient.init();
   }
 
+  /**
+   * Appends a middleware to the request pipeline.
+   * Middleware sees the final URL, headers and body of every request
+   * and can modify, observe or short-circuit it.
+   * 
+   * @param middleware - The middleware to add
+   * @returns The client, for chaining
+   * @throws HosbyValidationError if middleware is not a function
+   */
+  public use(middleware: Middleware): this {
+    this.baseClient.use(middleware);
+    return this;
+  }
+
+  /**
+   * Registers a listener for a client event.
+   * 
+   * @param event - The event name, such as `queue:change`
+   * @param listener - Called with the event payload
+   * @returns A function removing the listener
+   * @throws {Error} When listener is not a function
+   * 
+   * @example
+   * ```typescript
+   * client.on('queue:change', ({ pending, running }) => {
+   *   console.log(`${pending} queued, ${running} running`);
+   * });
+   * ```
+   */
+  public on<K extends keyof ClientEvents>(event: K, listener: Listener<ClientEvents[K]>): () => void {
+    return this.baseClient.on(event, listener);
+  }
+
+  /**
+   * Removes a listener registered with `on()`.
+   * 
+   * @param event - The event name
+   * @param listener - The listener to remove
+   */
+  public off<K extends keyof ClientEvents>(event: K, listener: Listener<ClientEvents[K]>): void {
+    this.baseClient.off(event, listener);
+  }
+
+  /**
+   * Returns the state of the circuit breaker.
+   * 
+   * @returns The circuit state, always 'closed' when the circuit breaker is disabled
+   */
+  public getCircuitState(): CircuitState {
+    return this.baseClient.getCircuitState();
+  }
+
+  /**
+   * Returns the number of queued and running requests.
+   * 
+   * @returns The request queue stats
+   */
+  public getQueueStats(): QueueStats {
+    return this.baseClient.getQueueStats();
+  }
+
+  /**
+   * Removes the cached responses of a table.
+   * Has no effect when the response cache is disabled.
+   * 
+   * @param table - Name of the table/collection
+   */
+  public async invalidate(table: string): Promise<void> {
+    await this.baseClient.invalidate(table);
+  }
+
+  /**
+   * Removes every cached response.
+   * Has no effect when the response cache is disabled.
+   */
+  public async clear(): Promise<void> {
+    await this.baseClient.clear();
+  }
+
+  /**
+   * Adds a signing key and makes it active, without rebuilding the client.
+   * During the grace period, requests rejected with an unknown key error
+   * are sent again with the previously active key.
+   * 
+   * @param key - The new signing key
+   * @param options - Rotation options, such as the grace period
+   * @throws {Error} When the key or the grace period is invalid
+   * 
+   * @example
+   * ```typescript
+   * client.rotateKey({ apiKeyId: 'key-2', privateKey: newPrivateKey }, { gracePeriod: 60000 });
+   * ```
+   */
+  public rotateKey(key: SigningKey, options?: RotateKeyOptions): void {
+    this.baseClient.rotateKey(key, options);
+  }
+
+  /**
+   * Makes a key of the key set the active signing key.
+   * 
+   * @param apiKeyId - Identifier of the key
+   * @throws {Error} When the key is not in the key set
+   */
+  public setActiveKey(apiKeyId: string): void {
+    this.baseClient.setActiveKey(apiKeyId);
+  }
+
+  /**
+   * Returns the identifier of the active signing key.
+   * 
+   * @returns The active apiKeyId
+   */
+  public getActiveKeyId(): string {
+    return this.baseClient.getActiveKeyId();
+  }
+
   /**
  * Logs in a user to the specified table/collection.
  * This method sends a POST request to the login endpoint with the provided data.
@@ -98,14 +220,15 @@ export class HosbyClient {
  * @template D - Type of the data to be sent in the login request (defaults to unknown)
  * @param table - Name of the table/collection to log in to
  * @param data - The data to be sent for login, which should match type D
+ * @param requestOptions - Per-call request options such as `timeout` and `signal`
  * @returns Promise resolving to ApiResponse containing:
  *   - success: Whether the login was successful (true/false)
  *   - status: HTTP status code (typically 200 for success)
  *   - message: Response message describing the result
  *   - data: Additional data returned from the login operation, if any
- * @throws Error if the table name is missing, not a string, or if data is not provided
+ * @throws HosbyValidationError if the table name is missing, not a string, or if data is not provided
  */
-  public login: typeof CrudClient.prototype.auth.login;
+  public login: CrudClient<M>['auth']['login'];
 
   /**
    * Logs out the user from the specified table/collection.
@@ -113,14 +236,15 @@ export class HosbyClient {
    * 
    * @template T - Type of the expected response data
    * @param table - Name of the table/collection from which to log out the user
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether the logout was successful (true/false)
    *   - status: HTTP status code (typically 200 for success)
    *   - message: Response message describing the result
    *   - data: Additional data returned from the logout operation, if any
-   * @throws Error if the table name is missing or not a string
+   * @throws HosbyValidationError if the table name is missing or not a string
    */
-  public logout: typeof CrudClient.prototype.auth.logout;
+  public logout: CrudClient<M>['auth']['logout'];
 
   /**
    * Find multiple documents based on filter criteria
@@ -133,12 +257,13 @@ export class HosbyClient {
    * @param options.limit - Maximum number of documents to return in response
    * @param options.query - Advanced query conditions using MongoDB-style operators ($eq, $gt, etc)
    * @param options.slice - Array field slicing parameters to limit array sizes in response
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Boolean indicating if operation succeeded
    *   - status: HTTP status code (200 for success)
    *   - message: Human readable response message
    *   - data: Array of found documents matching type T
-   * @throws Error if table parameters are missing/empty
+   * @throws HosbyValidationError if table parameters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -179,7 +304,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public find: typeof CrudClient.prototype.get.find;
+  public find: CrudClient<M>['get']['find'];
 
 
   /**
@@ -188,12 +313,13 @@ export class HosbyClient {
    * @param table - Name of the table/collection 
    * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties. 
    *                      Must include an '_id' field filter with the document ID to find.
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether operation was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: The found document of type T, or null if not found
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface Document {
@@ -215,7 +341,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public findById: typeof CrudClient.prototype.get.findById;
+  public findById: CrudClient<M>['get']['findById'];
 
 
   /**
@@ -224,12 +350,13 @@ export class HosbyClient {
    * @param table - Name of the table/collection
    * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties.
    *                      Must include an 'email' field filter with the email address to find.
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether operation was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: The found document of type T, or null if not found
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -251,7 +378,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public findByEmail: typeof CrudClient.prototype.get.findByEmail;
+  public findByEmail: CrudClient<M>['get']['findByEmail'];
 
   /**
    * Find a document by a specific token field
@@ -262,12 +389,13 @@ export class HosbyClient {
    * @param options - Additional query options
    * @param options.populate - Fields to populate in the returned document. Can be a string for a single field 
    *                          or array of strings for multiple fields
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether operation was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: The found document of type T, or null if not found
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -293,7 +421,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public findByToken: typeof CrudClient.prototype.get.findByToken;
+  public findByToken: CrudClient<M>['get']['findByToken'];
 
   /**
    * Get distinct values for a specific field
@@ -303,12 +431,13 @@ export class HosbyClient {
    * @param options - Additional query options
    * @param options.skip - Number of records to skip before getting distinct values
    * @param options.limit - Maximum number of distinct values to return
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether operation was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: Array of type T containing the distinct values
-   * @throws Error if table or queryFilters are missing
+   * @throws HosbyValidationError if table or queryFilters are missing
    * @example
    * ```typescript
    * interface User {
@@ -334,7 +463,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public distinct: typeof CrudClient.prototype.get.distinct;
+  public distinct: CrudClient<M>['get']['distinct'];
 
   /**
    * Perform a custom aggregation on a table
@@ -345,12 +474,13 @@ export class HosbyClient {
    * @param options.skip - Number of records to skip in the aggregation results (pagination)
    * @param options.limit - Maximum number of records to return in the aggregation results (pagination)
    * @param options.populate - Array of field paths to populate with referenced documents in the aggregation results
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether aggregation was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: Array of type T containing the aggregation results
-   * @throws Error if table is missing
+   * @throws HosbyValidationError if table is missing
    * @example
    * ```typescript
    * interface AggregateResult {
@@ -377,19 +507,20 @@ export class HosbyClient {
    * }
    * ```
    */
-  public aggregate: typeof CrudClient.prototype.get.aggregate;
+  public aggregate: CrudClient<M>['get']['aggregate'];
 
   /**
    * Count documents matching filter criteria
    * @template T - Type of the response data, typically { count: number }
    * @param table - Name of the table/collection
    * @param queryFilters - Optional array of filter criteria. Each filter should have field and value properties
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether request was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: Object of type T containing the count
-   * @throws Error if table is missing
+   * @throws HosbyValidationError if table is missing
    * @example
    * ```typescript
    * interface CountResult {
@@ -416,7 +547,7 @@ export class HosbyClient {
    * );
    * ```
    */
-  public count: typeof CrudClient.prototype.get.count;
+  public count: CrudClient<M>['get']['count'];
 
 
   /**
@@ -428,12 +559,13 @@ export class HosbyClient {
    * @param options.populate - Array of field paths to populate in the response. Required.
    * @param options.skip - Number of records to skip (optional)
    * @param options.limit - Maximum number of records to return (optional)
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether query was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: Array of found and populated documents of type T
-   * @throws Error if table or populate options are missing
+   * @throws HosbyValidationError if table or populate options are missing
    * @example
    * ```typescript
    * interface Order {
@@ -472,7 +604,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public findAndPopulate: typeof CrudClient.prototype.get.findAndPopulate;
+  public findAndPopulate: CrudClient<M>['get']['findAndPopulate'];
 
 
   /**
@@ -482,12 +614,13 @@ export class HosbyClient {
    * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
    * @param options - Additional query options
    * @param options.limit - Maximum number of records to return
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether query was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: Array of found documents of type T, or empty array if none found
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -513,7 +646,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public findEqual: typeof CrudClient.prototype.get.findEqual;
+  public findEqual: CrudClient<M>['get']['findEqual'];
 
 
   /**
@@ -523,12 +656,13 @@ export class HosbyClient {
    * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
    * @param options - Additional query options
    * @param options.limit - Maximum number of records to return
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether query was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: Array of found documents of type T, or empty array if none found
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface Product {
@@ -554,7 +688,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public findLessThan: typeof CrudClient.prototype.get.findLessThan;
+  public findLessThan: CrudClient<M>['get']['findLessThan'];
 
 
   /**
@@ -564,12 +698,13 @@ export class HosbyClient {
    * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
    * @param options - Additional query options
    * @param options.limit - Maximum number of records to return
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether query was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: Array of found documents of type T, or empty array if none found
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -592,7 +727,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public findGreaterThan: typeof CrudClient.prototype.get.findGreaterThan;
+  public findGreaterThan: CrudClient<M>['get']['findGreaterThan'];
 
   /**
    * Find documents by a specific field value
@@ -602,12 +737,13 @@ export class HosbyClient {
    * @param options - Additional query options
    * @param options.populate - Fields to populate in the returned documents. Can be a string for a single field or array of strings for multiple fields
    * @param options.limit - Maximum number of documents to return. If not specified, returns all matching documents
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether operation was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: Array of found documents of type T, or empty array if none found
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -636,7 +772,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public findByField: typeof CrudClient.prototype.get.findByField;
+  public findByField: CrudClient<M>['get']['findByField'];
 
 
   /**
@@ -646,12 +782,13 @@ export class HosbyClient {
    * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
    * @param options - Additional query options
    * @param options.populate - Array of field paths to populate in the response
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether query was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: The found document of type T, or null if not found
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -677,7 +814,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public findUnique: typeof CrudClient.prototype.get.findUnique;
+  public findUnique: CrudClient<M>['get']['findUnique'];
 
   /**
    * Find the first document matching the query filters
@@ -686,12 +823,13 @@ export class HosbyClient {
    * @param queryFilters - Array of filter criteria for querying. Each filter should have field and value properties
    * @param options - Additional query options
    * @param options.populate - Array of field paths to populate in the response
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether query was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: The first found document of type T, or null if not found
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -717,7 +855,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public findFirst: typeof CrudClient.prototype.get.findFirst;
+  public findFirst: CrudClient<M>['get']['findFirst'];
   
 
 
@@ -729,12 +867,13 @@ export class HosbyClient {
    * @param data - Document to insert. Should match type D
    * @param options - Additional query options
    * @param options.populate - Array of field paths to populate in the returned document
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether insert was successful (true/false)
    *   - status: HTTP status code (201 for success)
    *   - message: Response message describing the result
    *   - data: The inserted document of type T
-   * @throws Error if project, table or data is missing
+   * @throws HosbyValidationError if project, table or data is missing
    * @example
    * ```typescript
    * interface User {
@@ -767,7 +906,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public insertOne: typeof CrudClient.prototype.post.insertOne;
+  public insertOne: CrudClient<M>['post']['insertOne'];
 
 
   /**
@@ -778,12 +917,13 @@ export class HosbyClient {
    * @param data - Array of documents to insert. Each document should match type D
    * @param options - Additional query options
    * @param options.populate - Fields to populate in the returned documents. Can be a string for a single field or array of strings for multiple fields
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether insert was successful (true/false)
    *   - status: HTTP status code (201 for success)
    *   - message: Response message describing the result
    *   - data: Array of inserted documents of type T
-   * @throws Error if project, table or data array is missing/empty
+   * @throws HosbyValidationError if project, table or data array is missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -820,7 +960,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public insertMany: typeof CrudClient.prototype.post.insertMany;
+  public insertMany: CrudClient<M>['post']['insertMany'];
 
 
   /**
@@ -832,12 +972,13 @@ export class HosbyClient {
    * @param data - Data to update/insert. Should match type D
    * @param options - Additional query options
    * @param options.populate - Array of field paths to populate in the returned document
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether upsert was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: The upserted document of type T
-   * @throws Error if project, table or filters are missing/empty
+   * @throws HosbyValidationError if project, table or filters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -871,7 +1012,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public upsert: typeof CrudClient.prototype.post.upsert;
+  public upsert: CrudClient<M>['post']['upsert'];
 
   /**
    * Replace a document completely with new data
@@ -882,12 +1023,13 @@ export class HosbyClient {
    * @param data - New document data to replace with. Should match type D
    * @param options - Additional query options
    * @param options.populate - Array of field paths to populate in the returned document
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether replace was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: The replaced document of type T
-   * @throws Error if project, table or queryFilters are missing/empty
+   * @throws HosbyValidationError if project, table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -916,7 +1058,7 @@ export class HosbyClient {
    * );
    * ```
    */
-  public replaceOne: typeof CrudClient.prototype.put.replaceOne;
+  public replaceOne: CrudClient<M>['put']['replaceOne'];
 
   /**
    * Find a document by filter criteria and replace it with new data
@@ -927,12 +1069,13 @@ export class HosbyClient {
    * @param data - New document data to replace with. Should match type D
    * @param options - Additional query options
    * @param options.populate - Fields to populate in the returned document. Can be a string for a single field or array of strings for multiple fields
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether replace was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: The replaced document of type T
-   * @throws Error if project, table or queryFilters are missing/empty
+   * @throws HosbyValidationError if project, table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -966,7 +1109,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public findOneAndReplace: typeof CrudClient.prototype.put.findOneAndReplace;
+  public findOneAndReplace: CrudClient<M>['put']['findOneAndReplace'];
 
 
   /**
@@ -978,12 +1121,13 @@ export class HosbyClient {
    * @param data - Data to update the document with. Should match type D
    * @param options - Additional query options
    * @param options.populate - Array of field paths to populate in the returned document
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether update was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: The updated document of type T
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -1016,7 +1160,7 @@ export class HosbyClient {
    * );
    * ```
    */
-  public updateOne: typeof CrudClient.prototype.patch.updateOne;
+  public updateOne: CrudClient<M>['patch']['updateOne'];
 
 
   /**
@@ -1027,12 +1171,13 @@ export class HosbyClient {
    * @param options - Additional query options
    * @param options.populate - Fields to populate in the returned documents. Can be a string for a single field or array of strings for multiple fields
    * @param options.limit - Maximum number of documents to update. If not specified, all matching documents will be updated
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether update was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: Object containing modifiedCount indicating number of documents that were updated
-   * @throws Error if project or table is missing
+   * @throws HosbyValidationError if project or table is missing
    * @example
    * ```typescript
    * // Define the update data shape
@@ -1062,7 +1207,7 @@ export class HosbyClient {
    * console.log(`Updated ${result.data.modifiedCount} documents`);
    * ```
    */
-  public updateMany: typeof CrudClient.prototype.patch.updateMany;
+  public updateMany: CrudClient<M>['patch']['updateMany'];
 
 
   /**
@@ -1072,10 +1217,11 @@ export class HosbyClient {
    * @param data - Data to update the document with
    * @param options - Additional query options
    * @param options.populate - Fields to populate in the returned document. Can be a string for a single field or array of strings for multiple fields
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing the updated document
    * @template T - Type of the document being updated and returned
    * @template D - Type of the update data, defaults to unknown if not specified
-   * @throws Error if table or queryFilters are missing or empty
+   * @throws HosbyValidationError if table or queryFilters are missing or empty
    * @example
    * ```typescript
    * interface User {
@@ -1110,7 +1256,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public findOneAndUpdate: typeof CrudClient.prototype.patch.findOneAndUpdate;
+  public findOneAndUpdate: CrudClient<M>['patch']['findOneAndUpdate'];
 
 
   /**
@@ -1118,12 +1264,13 @@ export class HosbyClient {
    * @template T - Type of document being deleted and returned
    * @param table - Name of the table/collection
    * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether deletion was successful 
    *   - status: HTTP status code (200 for success)
    *   - message: Human readable response message
    *   - data: The deleted document matching type T
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -1149,7 +1296,7 @@ export class HosbyClient {
    * );
    * ```
    */
-  public deleteOne: typeof CrudClient.prototype.delete.deleteOne;
+  public deleteOne: CrudClient<M>['delete']['deleteOne'];
 
 
   /**
@@ -1159,12 +1306,13 @@ export class HosbyClient {
    * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
    * @param options - Additional query options
    * @param options.limit - Maximum number of documents to delete
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Boolean indicating if operation succeeded
    *   - status: HTTP status code (200 for success)
    *   - message: Human readable response message
    *   - data: Object with deletedCount indicating number of deleted documents
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface DeleteResult {
@@ -1186,7 +1334,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public deleteMany: typeof CrudClient.prototype.delete.deleteMany;
+  public deleteMany: CrudClient<M>['delete']['deleteMany'];
 
 
   /**
@@ -1196,12 +1344,13 @@ export class HosbyClient {
    * @param queryFilters - Array of filter criteria for querying. Each filter should have field and value properties
    * @param options - Additional query options
    * @param options.limit - Maximum number of documents to delete. If not specified, all matching documents will be deleted
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether deletion was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: Array of deleted documents matching type T
-   * @throws Error if project, table or queryFilters are missing/empty
+   * @throws HosbyValidationError if project, table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -1231,7 +1380,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public deleteByField: typeof CrudClient.prototype.delete.deleteByField;
+  public deleteByField: CrudClient<M>['delete']['deleteByField'];
 
 
   /**
@@ -1241,12 +1390,13 @@ export class HosbyClient {
    * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
    * @param options - Additional query options
    * @param options.limit - Maximum number of documents to delete
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether deletion was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Human readable response message
    *   - data: The deleted document matching type T
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -1268,7 +1418,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public deleteByToken: typeof CrudClient.prototype.delete.deleteByToken;
+  public deleteByToken: CrudClient<M>['delete']['deleteByToken'];
 
   /**
    * Delete a document by its ID
@@ -1277,12 +1427,13 @@ export class HosbyClient {
    * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
    * @param options - Additional query options
    * @param options.limit - Maximum number of documents to delete
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether deletion was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Human readable response message
    *   - data: The deleted document matching type T
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface Document {
@@ -1303,7 +1454,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public deleteById: typeof CrudClient.prototype.delete.deleteById;
+  public deleteById: CrudClient<M>['delete']['deleteById'];
 
   /**
    * Find a document by filter criteria and delete it
@@ -1312,12 +1463,13 @@ export class HosbyClient {
    * @param queryFilters - Array of filter criteria for querying. Each filter should have field, value properties
    * @param options - Additional query options
    * @param options.populate - Fields to populate in the returned document. Can be a string for a single field or array of strings for multiple fields
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether deletion was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: The deleted document of type T
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -1346,19 +1498,20 @@ export class HosbyClient {
    * }
    * ```
    */
-  public findOneAndDelete: typeof CrudClient.prototype.delete.findOneAndDelete;
+  public findOneAndDelete: CrudClient<M>['delete']['findOneAndDelete'];
 
   /**
    * Perform bulk insert operations on documents
    * @template T - Type of the returned documents array
    * @param table - Name of the table/collection
    * @param payload - Array of documents to insert
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether insert was successful (true/false)
    *   - status: HTTP status code (201 for success)
    *   - message: Response message describing the result
    *   - data: Array of inserted documents of type T
-   * @throws Error if table or payload is missing/empty
+   * @throws HosbyValidationError if table or payload is missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -1381,7 +1534,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public bulkInsert: typeof CrudClient.prototype.bulk.bulkInsert;
+  public bulkInsert: CrudClient<M>['bulk']['bulkInsert'];
 
   /**
    * Perform bulk update operations on documents  
@@ -1389,12 +1542,13 @@ export class HosbyClient {
    * @param table - Name of the table/collection
    * @param queryFilters - Array of filter criteria for querying
    * @param data - Array of documents to update
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether update was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: Array of updated documents of type T
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -1418,19 +1572,20 @@ export class HosbyClient {
    * }
    * ```
    */
-  public bulkUpdate: typeof CrudClient.prototype.bulk.bulkUpdate;
+  public bulkUpdate: CrudClient<M>['bulk']['bulkUpdate'];
 
   /**
    * Perform bulk delete operations on documents
    * @template T - Type of the returned documents array
    * @param table - Name of the table/collection
    * @param queryFilters - Array of filter criteria for querying
+   * @param requestOptions - Per-call request options such as `timeout` and `signal`
    * @returns Promise resolving to ApiResponse containing:
    *   - success: Whether delete was successful (true/false)
    *   - status: HTTP status code (200 for success)
    *   - message: Response message describing the result
    *   - data: Array of deleted documents of type T
-   * @throws Error if table or queryFilters are missing/empty
+   * @throws HosbyValidationError if table or queryFilters are missing/empty
    * @example
    * ```typescript
    * interface User {
@@ -1453,7 +1608,7 @@ export class HosbyClient {
    * }
    * ```
    */
-  public bulkDelete: typeof CrudClient.prototype.bulk.bulkDelete;
+  public bulkDelete: CrudClient<M>['bulk']['bulkDelete'];
 }
 
 /**
@@ -1494,16 +1649,134 @@ export class HosbyClient {
  * @returns A configured HosbyClient instance ready for use
  * @throws Error if required config options are missing
  */
-export function createClient(config: BaseClientConfig | SecureClientConfig): HosbyClient {
+export function createClient<M extends ErrorMode = 'throw'>(
+  config: (BaseClientConfig | SecureClientConfig) & ErrorModeConfig<M>
+): HosbyClient<M> {
   if (!config.baseURL || !config.privateKey || !config.publicKeyId || !config.projectId || !config.userId) {
     throw new Error('baseURL, privateKey, publicKeyId, projectId and userId are required configuration options');
   }
-  return new HosbyClient(config);
+  return new HosbyClient<M>(config);
 }
 
-export { BaseClient, SecureClientConfig } from './clients/BaseClient';
+export { BaseClient, ErrorModeConfig, SecureClientConfig } from './clients/BaseClient';
 export { HosbyClient as CrudClient } from './clients/crud';
-export type { ApiResponse, BaseClientConfig, QueryFilter, QueryOptions } from './types';
+export {
+  HosbyAbortError,
+  HosbyAuthError,
+  HosbyCertificateError,
+  HosbyCircuitOpenError,
+  HosbyConflictError,
+  HosbyError,
+  HosbyHttpError,
+  HosbyIntegrityError,
+  HosbyNetworkError,
+  HosbyRateLimitError,
+  HosbyTimeoutError,
+  HosbyValidationError
+} from './errors';
+export type { HosbyErrorOptions, IntegrityFailure } from './errors';
+export { ResponseCache, createMemoryCacheStorage } from './cache';
+export type { CacheConfig, CacheEntry, CacheStorage, MemoryCacheStorageOptions } from './cache';
+export { CircuitBreaker } from './breaker';
+export type { CircuitBreakerConfig, CircuitChange, CircuitState } from './breaker';
+export {
+  createCallbackCredentialProvider,
+  createEncryptedFileCredentialProvider,
+  createEnvCredentialProvider,
+  createFileCredentialProvider
+} from './credentials';
+export type {
+  CredentialProvider,
+  CredentialProviderOptions,
+  Credentials,
+  EncryptedFileCredentialProviderOptions,
+  EnvCredentialProviderOptions,
+  FileCredentialProviderOptions,
+  FileReaderLike,
+  KeyDecryptorLike
+} from './credentials';
+export {
+  CSRF_REJECTION_CODES,
+  DEFAULT_CSRF_COOKIE_NAME,
+  createBrowserCookieCsrfStore,
+  createCookieJarCsrfStore,
+  createMemoryCsrfStore,
+  isCsrfRejectionError
+} from './csrf';
+export type { BrowserCookieCsrfStoreOptions, CookieJarCsrfStoreOptions, CsrfRefresh, CsrfStore } from './csrf';
+export { FieldEncryptor } from './encryption';
+export type { EncryptedField, EncryptionMode, FieldEncryptionConfig } from './encryption';
+export { EventEmitter } from './events';
+export type { ClientEvents, Listener } from './events';
+export { KeySet, UNKNOWN_KEY_CODE, isUnknownKeyError } from './keys';
+export type { RotateKeyOptions, SigningKey } from './keys';
+export { RequestLimiter } from './limiter';
+export type { LimiterConfig, QueueStats, RateLimitConfig, ScheduleOptions } from './limiter';
+export { REDACTED, createConsoleLogger, createRedactingLogger, redact, redactString, silentLogger } from './logger';
+export type { LogFields, LogLevel, Logger } from './logger';
+export { composeMiddleware } from './middleware';
+export type { Middleware, MiddlewareContext, MiddlewareNext } from './middleware';
+export { SIGNATURE_ALGORITHMS, createNodeSigner, createWebCryptoSigner } from './signer';
+export type {
+  NodeCryptoLike,
+  NodeKeyObject,
+  NodeSignerConfig,
+  SignatureAlgorithm,
+  Signer,
+  SignerConfig,
+  SubtleCryptoLike,
+  WebCryptoSignerConfig
+} from './signer';
+export { ClientTelemetry, formatTraceparent, noopMeter, noopTracer } from './telemetry';
+export type {
+  Attributes,
+  Counter,
+  Histogram,
+  Meter,
+  RequestInstrumentation,
+  RequestOutcome,
+  Span,
+  SpanContext,
+  TelemetryConfig,
+  Tracer
+} from './telemetry';
+export { createFetchTransport, createPinnedTransport, createTestTransport, createUndiciTransport } from './transport';
+export type {
+  FetchLike,
+  PinnedTransportOptions,
+  TestTransport,
+  TestTransportReply,
+  TestTransportRequest,
+  Transport,
+  TlsCertificateLike,
+  TransportResponse,
+  UndiciTransportOptions
+} from './transport';
+export type {
+  ApiResponse,
+  BaseClientConfig,
+  ErrorMode,
+  QueryFilter,
+  QueryOptions,
+  RequestOptions,
+  ResponseFor,
+  Result,
+  ResultRequestOptions,
+  ThrowRequestOptions
+} from './types';
+export { MIN_RSA_KEY_SIZE, assertSigningKey, detectKeyFormat, inspectKey, toPkcs8 } from './utils/keyInfo';
+export type { KeyAlgorithm, KeyFormat, KeyInfo } from './utils/keyInfo';
+export { NonceRegistry, generateNonce } from './utils/nonce';
+export type { NonceRegistryConfig } from './utils/nonce';
+export { buildCanonicalRequest, buildSigningPayload, canonicalPath, canonicalQuery, hashBody } from './utils/signing';
+export type { SignatureVersion, SigningRequest } from './utils/signing';
+export {
+  RESPONSE_SIGNATURE_HEADER,
+  RESPONSE_TIMESTAMP_HEADER,
+  buildResponsePayload,
+  createResponseVerifier
+} from './verifier';
+export type { ResponseVerifier } from './verifier';
 
 
 
@@ -0,0 +1,208 @@
+import { CredentialProvider } from "../credentials";
+import { HosbyAuthError } from "../errors";
+import { SIGNATURE_ALGORITHMS, Signer } from "../signer";
+import { assertSigningKey } from "../utils/keyInfo";
+
+/**
+ * API key used to sign requests
+ */
+export interface SigningKey {
+    /** Identifier of the API key, sent in the `x-api-key` header */
+    readonly apiKeyId: string;
+    /** Private key signed with JSEncrypt (RSA-SHA256). Required without signer or credentials */
+    readonly privateKey?: string;
+    /** Signer of the key, used instead of the private key */
+    readonly signer?: Signer;
+    /** Provider resolving the private key lazily, used when there is neither signer nor private key */
+    readonly credentials?: CredentialProvider;
+}
+
+/**
+ * Options of a key rotation
+ */
+export interface RotateKeyOptions {
+    /**
+     * Time in milliseconds during which requests rejected with an unknown key error
+     * are sent again with the previous key. Defaults to the grace period of the key set
+     */
+    gracePeriod?: number;
+}
+
+/**
+ * Error code reported by the server for a key it does not know (yet)
+ */
+export const UNKNOWN_KEY_CODE = 'UNKNOWN_API_KEY';
+
+/**
+ * Checks whether the server rejected a request because it does not know its signing key,
+ * which happens while a newly rotated key propagates
+ * @param error The error thrown by the request
+ * @returns true for 401/403 errors with the `UNKNOWN_API_KEY` code or an "unknown key" message
+ */
+export const isUnknownKeyError = (error: unknown): boolean => {
+    if (!(error instanceof HosbyAuthError)) {
+        return false;
+    }
+    const code = (error.payload as { code?: unknown } | undefined)?.code;
+    return code === UNKNOWN_KEY_CODE || /unknown (?:api[ _-]?key|key)/i.test(error.message);
+};
+
+/**
+ * Validates a signing key
+ * @param key The signing key
+ * @throws {Error} When the key has no identifier, or neither a private key, a valid signer nor a credential provider
+ */
+const validateKey = (key: SigningKey): void => {
+    if (!key?.apiKeyId || typeof key.apiKeyId !== 'string') {
+        throw new Error('Signing key requires an apiKeyId');
+    }
+    const { privateKey, signer, credentials } = key;
+    if (signer !== undefined && (typeof signer?.sign !== 'function' || !SIGNATURE_ALGORITHMS.includes(signer.algorithm))) {
+        throw new Error(`Signer must implement a sign(data) method and use one of ${SIGNATURE_ALGORITHMS.join(', ')}`);
+    }
+    if (credentials !== undefined && (typeof credentials?.getCredentials !== 'function' || typeof credentials?.refresh !== 'function')) {
+        throw new Error('Credential provider must implement getCredentials() and refresh() methods');
+    }
+    if (!signer && !credentials && (!privateKey || typeof privateKey !== 'string')) {
+        throw new Error(`Signing key "${key.apiKeyId}" requires a privateKey, a signer or credentials`);
+    }
+    if (privateKey && !signer) {
+        try {
+            assertSigningKey(privateKey);
+        } catch (error) {
+            throw new Error(`Invalid private key for signing key "${key.apiKeyId}": ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+};
+
+/**
+ * Set of signing keys identified by their `apiKeyId`, one of which is active.
+ * After a rotation, the previous key stays available as a fallback during a grace period.
+ * @example
+ * ```typescript
+ * const keys = new KeySet([{ apiKeyId: 'key-1', privateKey }]);
+ * keys.rotate({ apiKeyId: 'key-2', privateKey: newPrivateKey }, { gracePeriod: 60000 });
+ * keys.active.apiKeyId; // 'key-2'
+ * keys.fallback?.apiKeyId; // 'key-1' for one minute
+ * ```
+ */
+export class KeySet {
+    private readonly keys = new Map<string, SigningKey>();
+    private readonly gracePeriod: number;
+    private activeKeyId: string;
+    private previous?: { apiKeyId: string; expiresAt: number };
+
+    /**
+     * Creates a new KeySet instance
+     * @param keys - The signing keys. Keys with the same apiKeyId replace the previous ones
+     * @param activeKeyId - Identifier of the active key. Defaults to the first key
+     * @param gracePeriod - Default time in milliseconds the previous key remains a fallback after a rotation.
+     * Defaults to 300000 (5 minutes)
+     * @throws {Error} When a key, the active key identifier or the grace period is invalid
+     */
+    constructor(keys: readonly SigningKey[], activeKeyId = keys[0]?.apiKeyId, gracePeriod = 300000) {
+        if (!keys?.length) {
+            throw new Error('Key set requires at least one signing key');
+        }
+        if (typeof gracePeriod !== 'number' || gracePeriod < 0) {
+            throw new Error('Key grace period must be a non-negative number of milliseconds');
+        }
+        keys.forEach(key => this.add(key));
+        this.gracePeriod = gracePeriod;
+        this.activeKeyId = this.require(activeKeyId).apiKeyId;
+    }
+
+    /**
+     * The key signing requests
+     */
+    public get active(): SigningKey {
+        return this.require(this.activeKeyId);
+    }
+
+    /**
+     * The previously active key, while its grace period lasts
+     */
+    public get fallback(): SigningKey | undefined {
+        if (!this.previous || this.previous.expiresAt <= Date.now()) {
+            this.previous = undefined;
+            return undefined;
+        }
+        return this.keys.get(this.previous.apiKeyId);
+    }
+
+    /**
+     * Identifiers of every key of the set
+     */
+    public get ids(): string[] {
+        return [...this.keys.keys()];
+    }
+
+    /**
+     * Adds a key, or replaces the key with the same apiKeyId
+     * @param key - The signing key
+     * @throws {Error} When the key is invalid
+     */
+    public add(key: SigningKey): void {
+        validateKey(key);
+        this.keys.set(key.apiKeyId, { ...key });
+    }
+
+    /**
+     * Removes a key
+     * @param apiKeyId - Identifier of the key
+     * @throws {Error} When the key is the active key
+     */
+    public remove(apiKeyId: string): void {
+        if (apiKeyId === this.activeKeyId) {
+            throw new Error(`Signing key "${apiKeyId}" is active and cannot be removed`);
+        }
+        if (this.previous?.apiKeyId === apiKeyId) {
+            this.previous = undefined;
+        }
+        this.keys.delete(apiKeyId);
+    }
+
+    /**
+     * Makes a key of the set the active key, without fallback
+     * @param apiKeyId - Identifier of the key
+     * @throws {Error} When the key is not in the set
+     */
+    public activate(apiKeyId: string): void {
+        this.activeKeyId = this.require(apiKeyId).apiKeyId;
+        this.previous = undefined;
+    }
+
+    /**
+     * Adds a key and makes it active. The previously active key remains a fallback during the grace period.
+     * @param key - The new signing key
+     * @param options - Rotation options
+     * @throws {Error} When the key or the grace period is invalid
+     */
+    public rotate(key: SigningKey, options: RotateKeyOptions = {}): void {
+        const { gracePeriod = this.gracePeriod } = options;
+        if (typeof gracePeriod !== 'number' || gracePeriod < 0) {
+            throw new Error('Key grace period must be a non-negative number of milliseconds');
+        }
+        this.add(key);
+        if (key.apiKeyId === this.activeKeyId) {
+            return;
+        }
+        this.previous = { apiKeyId: this.activeKeyId, expiresAt: Date.now() + gracePeriod };
+        this.activeKeyId = key.apiKeyId;
+    }
+
+    /**
+     * Returns a key of the set
+     * @param apiKeyId Identifier of the key
+     * @returns The signing key
+     * @throws {Error} When the key is not in the set
+     * @private
+     */
+    private require(apiKeyId: string | undefined): SigningKey {
+        const key = apiKeyId === undefined ? undefined : this.keys.get(apiKeyId);
+        if (!key) {
+            throw new Error(`Unknown signing key "${apiKeyId}"`);
+        }
+        return key;
+    }
+}
@@ -0,0 +1,199 @@
+import { HosbyAbortError, HosbyErrorOptions } from "../errors";
+
+/**
+ * Token bucket settings
+ */
+export interface RateLimitConfig {
+    /** Number of requests allowed per interval, also the size of bursts */
+    requests: number;
+    /** Interval in milliseconds over which `requests` tokens are refilled */
+    interval: number;
+}
+
+/**
+ * Request limiter options
+ */
+export interface LimiterConfig {
+    /** Maximum number of requests in flight at the same time. Defaults to no limit */
+    concurrency?: number;
+    /** Token bucket limiting the rate at which requests are sent. Defaults to no limit */
+    rateLimit?: RateLimitConfig;
+}
+
+/**
+ * Options of a scheduled task
+ */
+export interface ScheduleOptions {
+    /** Tasks with a higher priority leave the queue first. Defaults to 0 */
+    priority?: number;
+    /** Signal used to remove the task from the queue */
+    signal?: AbortSignal;
+    /** Request details attached to the abort error */
+    details?: HosbyErrorOptions;
+}
+
+/**
+ * Snapshot of the limiter queue
+ */
+export interface QueueStats {
+    /** Number of tasks waiting in the queue */
+    readonly pending: number;
+    /** Number of tasks running */
+    readonly running: number;
+}
+
+interface QueueEntry {
+    readonly priority: number;
+    readonly start: () => void;
+}
+
+/**
+ * Limits the number of concurrent tasks and the rate at which they start.
+ * Excess tasks wait in a priority queue, FIFO within the same priority.
+ * @example
+ * ```typescript
+ * const limiter = new RequestLimiter({ concurrency: 4, rateLimit: { requests: 10, interval: 1000 } });
+ * const response = await limiter.schedule(() => fetch(url), { priority: 1 });
+ * ```
+ */
+export class RequestLimiter {
+    private readonly concurrency: number;
+    private readonly capacity: number;
+    private readonly refillRate: number;
+    private readonly queue: QueueEntry[] = [];
+    private tokens: number;
+    private lastRefill: number;
+    private running = 0;
+    private timer?: ReturnType<typeof setTimeout>;
+
+    /**
+     * Creates a new RequestLimiter instance
+     * @param config - Limiter options
+     * @param onChange - Called with the queue stats whenever they change
+     * @throws {Error} When the concurrency or rate limit settings are invalid
+     */
+    constructor(config: LimiterConfig, private readonly onChange?: (stats: QueueStats) => void) {
+        const { concurrency = Infinity, rateLimit } = config;
+        if (concurrency !== Infinity && (!Number.isInteger(concurrency) || concurrency < 1)) {
+            throw new Error('concurrency must be a positive integer');
+        }
+        if (rateLimit && (!Number.isInteger(rateLimit.requests) || rateLimit.requests < 1
+            || typeof rateLimit.interval !== 'number' || !(rateLimit.interval > 0))) {
+            throw new Error('rateLimit requires a positive integer of requests per positive interval in milliseconds');
+        }
+        this.concurrency = concurrency;
+        this.capacity = rateLimit?.requests ?? Infinity;
+        this.refillRate = rateLimit ? rateLimit.requests / rateLimit.interval : Infinity;
+        this.tokens = this.capacity;
+        this.lastRefill = Date.now();
+    }
+
+    /**
+     * Current queue depth and number of running tasks
+     */
+    public get stats(): QueueStats {
+        return { pending: this.queue.length, running: this.running };
+    }
+
+    /**
+     * Runs a task once a concurrency slot and a rate limit token are available
+     * @param task - The task to run
+     * @param options - Priority and cancellation signal of the task
+     * @returns The task result
+     * @throws HosbyAbortError when the signal is aborted while the task is queued
+     */
+    public schedule<T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+        const { priority = 0, signal, details } = options;
+
+        if (signal?.aborted) {
+            return Promise.reject(new HosbyAbortError(signal.reason, undefined, details));
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = (): void => {
+                const index = this.queue.indexOf(entry);
+                if (index !== -1) {
+                    this.queue.splice(index, 1);
+                    this.notify();
+                    reject(new HosbyAbortError(signal?.reason, undefined, details));
+                }
+            };
+
+            const entry: QueueEntry = {
+                priority,
+                start: () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    task().then(resolve, reject).finally(() => {
+                        this.running--;
+                        this.notify();
+                        this.drain();
+                    });
+                }
+            };
+
+            // Insert after every entry with the same or a higher priority
+            const index = this.queue.findIndex(queued => queued.priority < priority);
+            this.queue.splice(index === -1 ? this.queue.length : index, 0, entry);
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            this.notify();
+            this.drain();
+        });
+    }
+
+    /**
+     * Starts queued tasks while slots and tokens are available
+     * @private
+     */
+    private drain(): void {
+        while (this.queue.length > 0 && this.running < this.concurrency) {
+            this.refill();
+            if (this.tokens < 1) {
+                this.scheduleDrain((1 - this.tokens) / this.refillRate);
+                return;
+            }
+
+            const entry = this.queue.shift() as QueueEntry;
+            this.tokens -= 1;
+            this.running++;
+            this.notify();
+            entry.start();
+        }
+    }
+
+    /**
+     * Refills the token bucket according to the elapsed time
+     * @private
+     */
+    private refill(): void {
+        if (this.capacity === Infinity) {
+            return;
+        }
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillRate);
+        this.lastRefill = now;
+    }
+
+    /**
+     * Drains the queue again once the next token is available
+     * @param delay Delay in milliseconds until the next token
+     * @private
+     */
+    private scheduleDrain(delay: number): void {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.drain();
+        }, Math.ceil(delay));
+    }
+
+    /**
+     * Reports the queue stats
+     * @private
+     */
+    private notify(): void {
+        this.onChange?.(this.stats);
+    }
+}
@@ -0,0 +1,160 @@
+/**
+ * Log severity levels, from the most to the least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to a log entry
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Structured logger used by the client.
+ * Compatible with most logging libraries (pino, winston, bunyan, console).
+ * @example
+ * ```typescript
+ * const logger: Logger = {
+ *   debug: (message, fields) => pino.debug(fields, message),
+ *   info: (message, fields) => pino.info(fields, message),
+ *   warn: (message, fields) => pino.warn(fields, message),
+ *   error: (message, fields) => pino.error(fields, message)
+ * };
+ * ```
+ */
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+}
+
+const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/** Placeholder replacing redacted values */
+export const REDACTED = '[REDACTED]';
+
+/** Field names whose values are always redacted. API keys are matched whole, so key IDs such as `apiKeyId` stay readable */
+const SENSITIVE_KEY = /authorization|cookie|token|jwt|signature|secret|password|passphrase|^(x-)?api[-_]?key$|private[-_]?key/i;
+
+/** JSON Web Tokens, whose base64url header always starts with `eyJ` */
+const JWT_PATTERN = /eyJ[\w-]*\.[\w-]+\.[\w-]*/g;
+
+/** Credentials following an authorization scheme */
+const BEARER_PATTERN = /\b(Bearer\s+)[^\s"',;]+/gi;
+
+/**
+ * Logger that discards every entry
+ */
+export const silentLogger: Logger = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined
+};
+
+/**
+ * Creates a logger writing to the console
+ * @param level Minimum level to write. Defaults to 'info'
+ * @returns A console logger
+ */
+export const createConsoleLogger = (level: LogLevel = 'info'): Logger => {
+    const minimum = LOG_LEVELS.indexOf(level);
+    const write = (entryLevel: LogLevel) => (message: string, fields?: LogFields): void => {
+        if (LOG_LEVELS.indexOf(entryLevel) >= minimum) {
+            console[entryLevel](message, ...(fields ? [fields] : []));
+        }
+    };
+    return {
+        debug: write('debug'),
+        info: write('info'),
+        warn: write('warn'),
+        error: write('error')
+    };
+};
+
+/**
+ * Redacts JWTs, bearer credentials and known secret values in a string
+ * @param value The string to redact
+ * @param secrets Exact values to redact, such as the current CSRF token
+ * @returns The redacted string
+ */
+export const redactString = (value: string, secrets: readonly string[] = []): string => {
+    const redacted = secrets.reduce(
+        (result, secret) => secret ? result.split(secret).join(REDACTED) : result,
+        value
+    );
+    return redacted.replace(JWT_PATTERN, REDACTED).replace(BEARER_PATTERN, `$1${REDACTED}`);
+};
+
+/**
+ * Redacts sensitive values in log fields.
+ * Values of sensitive field names (tokens, signatures, API keys, cookies, ...) are replaced entirely,
+ * other strings are redacted with {@link redactString}.
+ * @param value The value to redact
+ * @param secrets Exact values to redact, such as the current CSRF token
+ * @returns A redacted copy of the value
+ */
+export const redact = (value: unknown, secrets: readonly string[] = []): unknown => {
+    const seen = new WeakSet<object>();
+
+    const visit = (current: unknown): unknown => {
+        if (typeof current === 'string') {
+            return redactString(current, secrets);
+        }
+        if (typeof current !== 'object' || current === null) {
+            return current;
+        }
+        if (seen.has(current)) {
+            return '[Circular]';
+        }
+        seen.add(current);
+
+        if (Array.isArray(current)) {
+            return current.map(visit);
+        }
+
+        const source: Record<string, unknown> = current instanceof Error
+            ? { ...current, name: current.name, message: current.message }
+            : { ...(current as Record<string, unknown>) };
+
+        return Object.fromEntries(Object.entries(source).map(([key, entry]) => [
+            key,
+            SENSITIVE_KEY.test(key) && entry !== undefined && entry !== null ? REDACTED : visit(entry)
+        ]));
+    };
+
+    return visit(value);
+};
+
+/**
+ * Wraps a logger so that every message and field it receives is redacted
+ * @param logger The logger to wrap
+ * @param secrets Returns exact values to redact, read on every entry
+ * @returns The redacting logger
+ * @throws {Error} When logger does not implement every log level
+ */
+export const createRedactingLogger = (
+    logger: Logger,
+    secrets: () => ReadonlyArray<string | undefined> = () => []
+): Logger => {
+    if (LOG_LEVELS.some(level => typeof logger?.[level] !== 'function')) {
+        throw new Error('Logger must implement debug, info, warn and error methods');
+    }
+    const write = (level: LogLevel) => (message: string, fields?: LogFields): void => {
+        const values = secrets().filter((secret): secret is string => !!secret);
+        try {
+            logger[level](
+                redactString(message, values),
+                ...(fields ? [redact(fields, values) as LogFields] : [])
+            );
+        } catch {
+            // Logging errors must not affect the request lifecycle
+        }
+    };
+    return {
+        debug: write('debug'),
+        info: write('info'),
+        warn: write('warn'),
+        error: write('error')
+    };
+};
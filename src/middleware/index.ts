@@ -0,0 +1,84 @@
+import { TransportResponse } from "../transport";
+
+/**
+ * Request context passed through the middleware chain.
+ * Middleware may mutate `url`, `headers` and `body` before calling `next()`.
+ */
+export interface MiddlewareContext {
+    /** HTTP method */
+    readonly method: string;
+    /** Final request URL, including query parameters */
+    url: string;
+    /** Request headers produced by BaseClient, including auth and query option headers */
+    headers: Record<string, string>;
+    /** Request body before JSON serialization */
+    body?: unknown;
+    /** Zero-based attempt number, greater than 0 when the request is retried */
+    readonly attempt: number;
+    /** Signal that aborts when the request times out or is cancelled */
+    readonly signal?: AbortSignal;
+    /** Free-form state shared between middleware for the lifetime of the attempt */
+    readonly state: Record<string, unknown>;
+}
+
+/**
+ * Function that passes control to the next middleware, or sends the request at the end of the chain
+ */
+export type MiddlewareNext = () => Promise<TransportResponse>;
+
+/**
+ * Request/response middleware.
+ * Return the response from `next()` to observe or modify it,
+ * or return a response without calling `next()` to short-circuit the request.
+ * @example
+ * ```typescript
+ * const tenantHeader: Middleware = async (ctx, next) => {
+ *   ctx.headers['x-tenant-id'] = 'acme';
+ *   return next();
+ * };
+ *
+ * const logger: Middleware = async (ctx, next) => {
+ *   const start = Date.now();
+ *   const response = await next();
+ *   console.log(`${ctx.method} ${ctx.url} -> ${response.status} in ${Date.now() - start}ms`);
+ *   return response;
+ * };
+ * ```
+ */
+export type Middleware = (context: MiddlewareContext, next: MiddlewareNext) => Promise<TransportResponse>;
+
+/**
+ * Composes middleware into a single function, koa style.
+ * Middleware runs in array order on the way in and in reverse order on the way out.
+ * @param middleware Ordered list of middleware
+ * @param handler Terminal handler that sends the request
+ * @returns Function that runs the chain for a context
+ */
+export const composeMiddleware = (
+    middleware: readonly Middleware[],
+    handler: (context: MiddlewareContext) => Promise<TransportResponse>
+): ((context: MiddlewareContext) => Promise<TransportResponse>) => {
+    return (context: MiddlewareContext) => {
+        let lastIndex = -1;
+
+        const dispatch = async (index: number): Promise<TransportResponse> => {
+            if (index <= lastIndex) {
+                throw new Error('next() called multiple times in the same middleware');
+            }
+            lastIndex = index;
+
+            const current = middleware[index];
+            if (!current) {
+                return handler(context);
+            }
+
+            const response = await current(context, () => dispatch(index + 1));
+            if (!response) {
+                throw new Error('Middleware must return a response');
+            }
+            return response;
+        };
+
+        return dispatch(0);
+    };
+};
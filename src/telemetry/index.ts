@@ -0,0 +1,261 @@
+import { HosbyError } from "../errors";
+
+/**
+ * Attributes attached to spans and metrics
+ */
+export type Attributes = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Identifiers of a span, compatible with the OpenTelemetry `SpanContext`
+ */
+export interface SpanContext {
+    /** 32 hex characters trace identifier */
+    readonly traceId: string;
+    /** 16 hex characters span identifier */
+    readonly spanId: string;
+    /** W3C trace flags, `1` when sampled */
+    readonly traceFlags: number;
+}
+
+/**
+ * Subset of the OpenTelemetry `Span` used by the client
+ */
+export interface Span {
+    setAttribute(key: string, value: string | number | boolean): unknown;
+    setStatus(status: { code: number; message?: string }): unknown;
+    recordException(exception: Error): unknown;
+    spanContext(): SpanContext;
+    end(): void;
+}
+
+/**
+ * Subset of the OpenTelemetry `Tracer` used by the client
+ */
+export interface Tracer {
+    startSpan(name: string, options?: { kind?: number; attributes?: Attributes }): Span;
+}
+
+/**
+ * Subset of the OpenTelemetry `Histogram` used by the client
+ */
+export interface Histogram {
+    record(value: number, attributes?: Attributes): void;
+}
+
+/**
+ * Subset of the OpenTelemetry `Counter` used by the client
+ */
+export interface Counter {
+    add(value: number, attributes?: Attributes): void;
+}
+
+/**
+ * Subset of the OpenTelemetry `Meter` used by the client
+ */
+export interface Meter {
+    createHistogram(name: string, options?: { description?: string; unit?: string }): Histogram;
+    createCounter(name: string, options?: { description?: string; unit?: string }): Counter;
+}
+
+/**
+ * Telemetry options
+ * @example
+ * ```typescript
+ * import { metrics, trace } from '@opentelemetry/api';
+ *
+ * const telemetry: TelemetryConfig = {
+ *   tracer: trace.getTracer('hosby-ts'),
+ *   meter: metrics.getMeter('hosby-ts')
+ * };
+ * ```
+ */
+export interface TelemetryConfig {
+    /** Tracer creating a span per request. Defaults to a no-op tracer */
+    tracer?: Tracer;
+    /** Meter recording request metrics. Defaults to a no-op meter */
+    meter?: Meter;
+}
+
+/**
+ * Outcome of an instrumented request
+ */
+export interface RequestOutcome {
+    /** HTTP status code, or a status-like code for client-side failures */
+    readonly status: number;
+    /** Number of retries performed */
+    readonly retries: number;
+    /** The error the request failed with, if any */
+    readonly error?: unknown;
+}
+
+/**
+ * Instrumentation of a single request
+ */
+export interface RequestInstrumentation {
+    /** W3C `traceparent` header value, undefined when the span is not recorded */
+    readonly traceparent?: string;
+    /** Ends the span and records the request metrics */
+    end(outcome: RequestOutcome): void;
+}
+
+/** OpenTelemetry `SpanKind.CLIENT` */
+const SPAN_KIND_CLIENT = 2;
+/** OpenTelemetry `SpanStatusCode.OK` */
+const SPAN_STATUS_OK = 1;
+/** OpenTelemetry `SpanStatusCode.ERROR` */
+const SPAN_STATUS_ERROR = 2;
+
+const INVALID_SPAN_CONTEXT: SpanContext = {
+    traceId: '00000000000000000000000000000000',
+    spanId: '0000000000000000',
+    traceFlags: 0
+};
+
+const noopSpan: Span = {
+    setAttribute: () => noopSpan,
+    setStatus: () => noopSpan,
+    recordException: () => undefined,
+    spanContext: () => INVALID_SPAN_CONTEXT,
+    end: () => undefined
+};
+
+/**
+ * Tracer that records nothing
+ */
+export const noopTracer: Tracer = {
+    startSpan: () => noopSpan
+};
+
+/**
+ * Meter that records nothing
+ */
+export const noopMeter: Meter = {
+    createHistogram: () => ({ record: () => undefined }),
+    createCounter: () => ({ add: () => undefined })
+};
+
+/**
+ * Builds a W3C `traceparent` header value
+ * @param context The span context
+ * @returns The header value, or undefined for an invalid context
+ */
+export const formatTraceparent = (context: SpanContext): string | undefined => {
+    const { traceId, spanId, traceFlags } = context;
+    if (!/^[0-9a-f]{32}$/.test(traceId) || !/^[0-9a-f]{16}$/.test(spanId)
+        || /^0+$/.test(traceId) || /^0+$/.test(spanId)) {
+        return undefined;
+    }
+    return `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, '0')}`;
+};
+
+/**
+ * Splits a request path into its table and endpoint name
+ * @param path Request path, such as `users/findByField` or `users/email/login`
+ * @returns The table and the endpoint name
+ */
+export const parseEndpoint = (path: string): { table?: string; endpoint: string } => {
+    const segments = path.split('/').filter(Boolean);
+    if (path === 'api/secure/csrf-token' || segments.length < 2) {
+        return { endpoint: segments[segments.length - 1] ?? path };
+    }
+    return { table: segments[0], endpoint: segments[segments.length - 1] };
+};
+
+/**
+ * Records spans and metrics for client requests
+ */
+export class ClientTelemetry {
+    private readonly tracer: Tracer;
+    private readonly duration: Histogram;
+    private readonly retries: Counter;
+
+    /**
+     * Creates a new ClientTelemetry instance
+     * @param config - Tracer and meter to record to
+     * @throws {Error} When the tracer or the meter is invalid
+     */
+    constructor(config: TelemetryConfig = {}) {
+        const { tracer = noopTracer, meter = noopMeter } = config;
+        if (typeof tracer?.startSpan !== 'function') {
+            throw new Error('Tracer must implement a startSpan(name, options) method');
+        }
+        if (typeof meter?.createHistogram !== 'function' || typeof meter?.createCounter !== 'function') {
+            throw new Error('Meter must implement createHistogram(name, options) and createCounter(name, options) methods');
+        }
+        this.tracer = tracer;
+        this.duration = meter.createHistogram('hosby.client.request.duration', {
+            description: 'Duration of Hosby requests, retries included',
+            unit: 'ms'
+        });
+        this.retries = meter.createCounter('hosby.client.request.retries', {
+            description: 'Number of retried Hosby request attempts'
+        });
+    }
+
+    /**
+     * Starts instrumenting a request
+     * @param method - HTTP method
+     * @param path - Request path
+     * @returns The request instrumentation, to end once the request settles
+     */
+    public start(method: string, path: string): RequestInstrumentation {
+        const { table, endpoint } = parseEndpoint(path);
+        const attributes: Attributes = {
+            'http.request.method': method,
+            'hosby.endpoint': endpoint,
+            ...(table ? { 'hosby.table': table } : {})
+        };
+        const span = this.tracer.startSpan(`Hosby ${endpoint}`, { kind: SPAN_KIND_CLIENT, attributes });
+        const startedAt = Date.now();
+
+        return {
+            traceparent: formatTraceparent(span.spanContext()),
+            end: ({ status, retries, error }) => {
+                try {
+                    this.record(span, startedAt, attributes, status, retries, error);
+                } catch {
+                    // Telemetry errors must not affect the request lifecycle
+                }
+            }
+        };
+    }
+
+    /**
+     * Ends a request span and records the request metrics
+     * @param span The request span
+     * @param startedAt Start time of the request, in milliseconds since the epoch
+     * @param attributes Method, table and endpoint attributes
+     * @param status HTTP status code of the request
+     * @param retries Number of retries performed
+     * @param error The error the request failed with, if any
+     * @private
+     */
+    private record(
+        span: Span,
+        startedAt: number,
+        attributes: Attributes,
+        status: number,
+        retries: number,
+        error: unknown
+    ): void {
+        const metricAttributes: Attributes = { ...attributes, 'http.response.status_code': status };
+
+        span.setAttribute('http.response.status_code', status);
+        span.setAttribute('hosby.retry_count', retries);
+        if (error) {
+            span.setAttribute('error.type', error instanceof HosbyError ? error.name : 'Error');
+            if (error instanceof Error) {
+                span.recordException(error);
+            }
+            span.setStatus({ code: SPAN_STATUS_ERROR, message: error instanceof Error ? error.message : undefined });
+        } else {
+            span.setStatus({ code: SPAN_STATUS_OK });
+        }
+        span.end();
+
+        this.duration.record(Date.now() - startedAt, metricAttributes);
+        if (retries > 0) {
+            this.retries.add(retries, metricAttributes);
+        }
+    }
+}
@@ -0,0 +1,281 @@
+import { HosbyCertificateError } from "../errors";
+
+/**
+ * Minimal response shape consumed by BaseClient.
+ * Compatible with the WHATWG `Response` returned by `fetch`.
+ */
+export interface TransportResponse {
+    /** Whether the status is in the 200-299 range */
+    readonly ok: boolean;
+    /** HTTP status code */
+    readonly status: number;
+    /** HTTP status text */
+    readonly statusText?: string;
+    /** Response headers, with `getSetCookie` in runtimes that expose the Set-Cookie headers */
+    readonly headers: { get(name: string): string | null; getSetCookie?(): string[] };
+    /** Parses the response body as JSON */
+    json(): Promise<any>;
+    /** Reads the response body as text */
+    text?(): Promise<string>;
+}
+
+/**
+ * Signature of a `fetch`-compatible function
+ */
+export type FetchLike = (url: string, init: RequestInit) => Promise<TransportResponse>;
+
+/**
+ * Transport used by BaseClient to send HTTP requests.
+ * Implement it to run the client on top of any HTTP stack.
+ * @example
+ * ```typescript
+ * const transport: Transport = {
+ *   send: (url, init) => myHttpLibrary.fetch(url, init)
+ * };
+ *
+ * const client = new HosbyClient({ ...config, transport });
+ * ```
+ */
+export interface Transport {
+    /**
+     * Sends a request
+     * @param url Fully qualified request URL
+     * @param init Request options (method, headers, body, signal, ...)
+     * @returns The server response. Rejections are reported as network errors,
+     * while errors thrown synchronously, such as a missing fetch implementation, are reported as is
+     */
+    send(url: string, init: RequestInit): Promise<TransportResponse>;
+}
+
+/**
+ * Creates a transport backed by a `fetch` implementation
+ * @param fetchImpl Custom fetch implementation. Defaults to the global `fetch`, resolved on every call
+ * @returns A fetch-based transport
+ * @throws Error when no fetch implementation is available at request time
+ * @example
+ * ```typescript
+ * import nodeFetch from 'node-fetch';
+ *
+ * const client = new HosbyClient({ ...config, transport: createFetchTransport(nodeFetch) });
+ * ```
+ */
+export const createFetchTransport = (fetchImpl?: FetchLike): Transport => ({
+    send(url: string, init: RequestInit): Promise<TransportResponse> {
+        const fetchFn = fetchImpl ?? (globalThis.fetch as FetchLike | undefined);
+        if (typeof fetchFn !== 'function') {
+            throw new Error('No fetch implementation available. Provide one with createFetchTransport(fetch) or a custom transport.');
+        }
+        return fetchFn(url, init);
+    }
+});
+
+/**
+ * Options for {@link createUndiciTransport}
+ */
+export interface UndiciTransportOptions {
+    /** undici `Dispatcher` (e.g. `Agent`, `Pool` or `ProxyAgent`) used for every request */
+    readonly dispatcher: unknown;
+    /** undici `fetch` implementation. Defaults to the global `fetch`, which is undici-based on Node.js 18+ */
+    readonly fetch?: FetchLike;
+}
+
+/**
+ * Creates a Node.js transport that routes requests through an undici dispatcher.
+ * Useful to tune connection pooling, keep-alive, proxies or TLS options.
+ * @param options The dispatcher and optional undici fetch implementation
+ * @returns A dispatcher-aware transport
+ * @example
+ * ```typescript
+ * import { Agent } from 'undici';
+ *
+ * const transport = createUndiciTransport({
+ *   dispatcher: new Agent({ connections: 10, keepAliveTimeout: 10_000 })
+ * });
+ * ```
+ */
+export const createUndiciTransport = (options: UndiciTransportOptions): Transport => {
+    if (!options?.dispatcher) {
+        throw new Error('An undici dispatcher is required');
+    }
+    const fetchTransport = createFetchTransport(options.fetch);
+    return {
+        send(url: string, init: RequestInit): Promise<TransportResponse> {
+            return fetchTransport.send(url, { ...init, dispatcher: options.dispatcher } as RequestInit);
+        }
+    };
+};
+
+/**
+ * Subset of the Node.js `PeerCertificate` checked by {@link createPinnedTransport}
+ */
+export interface TlsCertificateLike {
+    /** DER-encoded SubjectPublicKeyInfo of the certificate */
+    readonly pubkey?: Uint8Array;
+}
+
+/**
+ * Options for {@link createPinnedTransport}
+ */
+export interface PinnedTransportOptions {
+    /**
+     * SHA-256 hashes of the SubjectPublicKeyInfo of the accepted certificates, in base64.
+     * The `sha256/` prefix of HTTP public key pins and the `SHA256:` prefix of `inspectKey` fingerprints are accepted.
+     * Include the pin of a backup key, so that the server certificate can be replaced without locking clients out.
+     */
+    readonly pins: readonly string[];
+    /**
+     * Hostnames the pins apply to, e.g. the host of `baseURL`. Entries starting with `.` match subdomains.
+     * Other hosts get the default certificate validation only. Defaults to every host.
+     */
+    readonly hosts?: readonly string[];
+    /** undici `Agent` class, created with a `checkServerIdentity` connect option */
+    readonly Agent: new (options: { connect: { checkServerIdentity: (hostname: string, cert: TlsCertificateLike) => Error | undefined } }) => unknown;
+    /**
+     * The Node.js `tls` module, which performs the default hostname validation.
+     * Passed in rather than imported so that browser bundles never reference Node.js built-ins.
+     */
+    readonly tls: { checkServerIdentity(hostname: string, cert: TlsCertificateLike): Error | undefined };
+    /** The Node.js `crypto` module, which hashes the certificate public keys */
+    readonly crypto: { createHash(algorithm: 'sha256'): { update(data: Uint8Array): { digest(encoding: 'base64'): string } } };
+    /** undici `fetch` implementation. Defaults to the global `fetch`, which is undici-based on Node.js 18+ */
+    readonly fetch?: FetchLike;
+}
+
+/** Unpadded base64 of a SHA-256 hash */
+const PIN_PATTERN = /^[A-Za-z0-9+/]{43}$/;
+
+/**
+ * Creates a Node.js transport that rejects servers whose certificate public key is not pinned.
+ * The certificate chain and the hostname are validated as usual first.
+ * A mismatch fails the request with a {@link HosbyCertificateError}, which is never retried.
+ * @param options The pins, the hosts they apply to, the undici `Agent` class and the Node.js `tls` and `crypto` modules
+ * @returns A pinning transport
+ * @throws {Error} When a pin is not a base64 SHA-256 hash, or a module is missing
+ * @example
+ * ```typescript
+ * import * as crypto from 'node:crypto';
+ * import * as tls from 'node:tls';
+ * import { Agent } from 'undici';
+ *
+ * // openssl s_client -connect api.hosby.com:443 | openssl x509 -pubkey -noout | npx hosby keys fingerprint --file /dev/stdin
+ * const transport = createPinnedTransport({
+ *   pins: [serverPin, backupPin],
+ *   hosts: ['api.hosby.com'],
+ *   Agent,
+ *   tls,
+ *   crypto
+ * });
+ * ```
+ */
+export const createPinnedTransport = (options: PinnedTransportOptions): Transport => {
+    const { Agent, tls, crypto, hosts } = options ?? {};
+    if (typeof Agent !== 'function' || typeof tls?.checkServerIdentity !== 'function' || typeof crypto?.createHash !== 'function') {
+        throw new Error('The undici Agent class and the Node.js tls and crypto modules are required to pin certificates');
+    }
+    const pins = (options.pins ?? []).map(pin => String(pin).replace(/^(sha256\/|SHA256:)/, '').replace(/=+$/, ''));
+    if (!pins.length || pins.some(pin => !PIN_PATTERN.test(pin))) {
+        throw new Error('Certificate pins must be base64 SHA-256 hashes of the SubjectPublicKeyInfo of the certificates');
+    }
+    const pinnedHosts = hosts?.map(host => host.toLowerCase());
+
+    const checkServerIdentity = (hostname: string, cert: TlsCertificateLike): Error | undefined => {
+        const error = tls.checkServerIdentity(hostname, cert);
+        const host = hostname.toLowerCase();
+        if (error || (pinnedHosts && !pinnedHosts.some(pinned => pinned.startsWith('.') ? host.endsWith(pinned) : host === pinned))) {
+            return error;
+        }
+        const pin = cert.pubkey ? crypto.createHash('sha256').update(cert.pubkey).digest('base64').replace(/=+$/, '') : '';
+        return pins.includes(pin) ? undefined : new HosbyCertificateError(hostname, pin ? `SHA256:${pin}` : '');
+    };
+
+    return createUndiciTransport({ dispatcher: new Agent({ connect: { checkServerIdentity } }), fetch: options.fetch });
+};
+
+/**
+ * Request captured by a test transport
+ */
+export interface TestTransportRequest {
+    /** HTTP method */
+    readonly method: string;
+    /** Parsed request URL */
+    readonly url: URL;
+    /** Request headers */
+    readonly headers: Record<string, string>;
+    /** Parsed JSON body, if any */
+    readonly body?: unknown;
+}
+
+/**
+ * Reply returned by a test transport handler
+ */
+export interface TestTransportReply {
+    /** HTTP status code, defaults to 200 */
+    readonly status?: number;
+    /** Response headers */
+    readonly headers?: Record<string, string>;
+    /** Response body, serialized as JSON unless it is a string */
+    readonly body?: unknown;
+}
+
+/**
+ * In-process transport returned by {@link createTestTransport}
+ */
+export interface TestTransport extends Transport {
+    /** Requests received so far, in order */
+    readonly requests: TestTransportRequest[];
+}
+
+/**
+ * Creates an in-process transport that answers requests with a handler,
+ * without touching the network or the global `fetch`.
+ * @param handler Function that produces a reply for each request
+ * @returns A transport that also records every request it receives
+ * @example
+ * ```typescript
+ * const transport = createTestTransport(({ url }) => {
+ *   if (url.pathname.endsWith('/csrf-token/')) {
+ *     return { body: { success: true, data: { token: 'csrf' } } };
+ *   }
+ *   return { body: { success: true, status: 200, message: 'OK', data: [] } };
+ * });
+ *
+ * const client = new HosbyClient({ ...config, transport });
+ * ```
+ */
+export const createTestTransport = (
+    handler: (request: TestTransportRequest) => TestTransportReply | Promise<TestTransportReply>
+): TestTransport => {
+    const requests: TestTransportRequest[] = [];
+
+    return {
+        requests,
+        async send(url: string, init: RequestInit): Promise<TransportResponse> {
+            if (init.signal?.aborted) {
+                throw new Error('The operation was aborted');
+            }
+
+            const rawBody = typeof init.body === 'string' ? init.body : undefined;
+            const request: TestTransportRequest = {
+                method: init.method ?? 'GET',
+                url: new URL(url),
+                headers: { ...(init.headers as Record<string, string> | undefined) },
+                body: rawBody ? JSON.parse(rawBody) : undefined
+            };
+            requests.push(request);
+
+            const reply = await handler(request);
+            const status = reply.status ?? 200;
+            const text = typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body ?? null);
+            const headers = new Map(Object.entries(reply.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value]));
+
+            return {
+                ok: status >= 200 && status < 300,
+                status,
+                statusText: String(status),
+                headers: { get: (name: string) => headers.get(name.toLowerCase()) ?? null },
+                json: async () => JSON.parse(text),
+                text: async () => text
+            };
+        }
+    };
+};
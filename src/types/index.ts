@@ -1,3 +1,5 @@
+import type { HosbyError } from "../errors";
+
 /**
  * Generic API response type with strongly typed data
  * @template T The type of data contained in the response
@@ -13,6 +15,49 @@ export type ApiResponse<T> = {
     readonly data: T;
 };
 
+/**
+ * How client methods report failures:
+ * - 'throw': methods reject with a {@link HosbyError} (default)
+ * - 'result': methods resolve to a {@link Result} and never reject
+ */
+export type ErrorMode = 'throw' | 'result';
+
+/**
+ * Non-throwing outcome of a request, returned in 'result' error mode
+ * @template T The type of data contained in the response
+ * @example
+ * ```typescript
+ * const result = await client.find<User[]>('users', [], {}, { errorMode: 'result' });
+ * if (result.ok) {
+ *   result.data.forEach(user => console.log(user.name));
+ * } else {
+ *   console.error(result.error.status, result.error.message);
+ * }
+ * ```
+ */
+export type Result<T> =
+    | {
+        /** The request succeeded */
+        readonly ok: true;
+        /** Response payload */
+        readonly data: T;
+        /** Full API response */
+        readonly response: ApiResponse<T>;
+    }
+    | {
+        /** The request failed */
+        readonly ok: false;
+        /** Error describing the failure */
+        readonly error: HosbyError;
+    };
+
+/**
+ * Response type of a client method for an error mode
+ * @template T The type of data contained in the response
+ * @template M The error mode
+ */
+export type ResponseFor<T, M extends ErrorMode> = M extends 'result' ? Result<T> : ApiResponse<T>;
+
 /**
  * Generic criteria type for filtering records
  * @template T The type of record being filtered
@@ -27,8 +72,8 @@ export type Criteria<T extends Record<string, unknown>> = {
 export interface BaseClientConfig {
     /** Base URL for API requests */
     readonly baseURL: string;
-    /** RSA private key for request signing */
-    readonly privateKey: string;
+    /** RSA private key for request signing, required unless a `signer` or `credentials` is configured */
+    readonly privateKey?: string;
     /** Identifier for the public key pair */
     readonly apiKeyId: string;
     /** Project name */
@@ -37,7 +82,7 @@ export interface BaseClientConfig {
     readonly projectId: string;
     /** User identifier */
     readonly userId: string;
-    /** Optional custom headers */
+    /** Optional custom headers sent with every request, authentication headers cannot be overridden */
     readonly headers?: Readonly<Record<string, string>>;
     /** Additional configuration options */
     readonly [key: string]: unknown;
@@ -156,4 +201,105 @@ export interface QueryOptions {
      * ```
      */
     readonly slice?: readonly number[];
-}
\ No newline at end of file
+}
+
+/**
+ * Per-call options that control how a single request is executed
+ */
+export interface RequestOptions {
+    /**
+     * Request timeout in milliseconds for this call only.
+     * Overrides the client-level `timeout` option. Use `0` to disable the timeout.
+     * @example
+     * ```typescript
+     * await client.find('users', [], {}, { timeout: 2000 });
+     * ```
+     */
+    readonly timeout?: number;
+
+    /**
+     * Signal used to cancel the request.
+     * When the signal is aborted the call rejects with a `HosbyAbortError`.
+     * @example
+     * ```typescript
+     * const controller = new AbortController();
+     * const pending = client.find('users', [], {}, { signal: controller.signal });
+     * controller.abort();
+     * ```
+     */
+    readonly signal?: AbortSignal;
+
+    /**
+     * Number of retry attempts for this call only.
+     * Overrides the client-level `retryAttempts` option.
+     */
+    readonly retryAttempts?: number;
+
+    /**
+     * Idempotency key sent in the `Idempotency-Key` header.
+     * Required for POST and PATCH requests to be retried automatically,
+     * the server uses it to discard duplicate writes.
+     * @example
+     * ```typescript
+     * await client.insertOne('orders', order, {}, { idempotencyKey: order.reference });
+     * ```
+     */
+    readonly idempotencyKey?: string;
+
+    /**
+     * Error mode for this call only, overrides the client-level `errorMode` option.
+     * In 'result' mode the call resolves to a {@link Result} instead of throwing.
+     */
+    readonly errorMode?: ErrorMode;
+
+    /**
+     * Whether this GET may share the response of an identical request already in flight.
+     * Defaults to true. Calls with their own `signal` are never shared.
+     * @example
+     * ```typescript
+     * await client.count('users', [], { dedupe: false });
+     * ```
+     */
+    readonly dedupe?: boolean;
+
+    /**
+     * Whether this read may be served from and stored in the response cache.
+     * Defaults to true when the client has a cache.
+     * @example
+     * ```typescript
+     * const fresh = await client.find('users', [], {}, { cache: false });
+     * ```
+     */
+    readonly cache?: boolean;
+
+    /**
+     * Queue priority of this call when the client limits concurrency or rate.
+     * Requests with a higher priority are sent first. Defaults to 0.
+     * @example
+     * ```typescript
+     * await client.findById('users', filters, { priority: 10 });
+     * ```
+     */
+    readonly priority?: number;
+
+    /**
+     * Extra headers sent with this call only, merged over the client `headers`.
+     * The authentication headers (`x-signature`, `x-timestamp`, `x-api-key`, `X-CSRF-Token-Hosby`)
+     * cannot be overridden.
+     * @example
+     * ```typescript
+     * await client.find('products', [], {}, { headers: { 'Accept-Language': 'fr' } });
+     * ```
+     */
+    readonly headers?: Readonly<Record<string, string>>;
+}
+
+/**
+ * Request options that switch a call to 'result' error mode
+ */
+export type ResultRequestOptions = RequestOptions & { readonly errorMode: 'result' };
+
+/**
+ * Request options that switch a call to 'throw' error mode
+ */
+export type ThrowRequestOptions = RequestOptions & { readonly errorMode: 'throw' };
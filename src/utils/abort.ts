@@ -0,0 +1,64 @@
+import { HosbyAbortError, HosbyErrorOptions, HosbyTimeoutError } from "../errors";
+
+/**
+ * Runs an abortable task with an optional timeout and caller-provided signal
+ * @param task The task to run, receives the signal it should forward to `fetch`
+ * @param timeout Timeout in milliseconds, `0` or undefined disables it
+ * @param signal Optional caller signal used to cancel the task
+ * @param details Request details attached to timeout and abort errors
+ * @returns The task result
+ * @throws HosbyTimeoutError when the timeout elapses before the task settles
+ * @throws HosbyAbortError when the caller signal is aborted before the task settles
+ */
+export const runWithTimeout = <T>(
+    task: (signal?: AbortSignal) => Promise<T>,
+    timeout?: number,
+    signal?: AbortSignal,
+    details?: HosbyErrorOptions
+): Promise<T> => {
+    const hasTimeout = typeof timeout === 'number' && timeout > 0;
+
+    if (!hasTimeout && !signal) {
+        return task();
+    }
+
+    if (signal?.aborted) {
+        return Promise.reject(new HosbyAbortError(signal.reason, undefined, details));
+    }
+
+    const controller = new AbortController();
+
+    return new Promise<T>((resolve, reject) => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const cleanup = (): void => {
+            if (timer) clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        };
+
+        const fail = (error: Error): void => {
+            cleanup();
+            controller.abort();
+            reject(error);
+        };
+
+        const onAbort = (): void => fail(new HosbyAbortError(signal?.reason, undefined, details));
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        if (hasTimeout) {
+            timer = setTimeout(() => fail(new HosbyTimeoutError(timeout, undefined, details)), timeout);
+        }
+
+        task(controller.signal).then(
+            (value) => {
+                cleanup();
+                resolve(value);
+            },
+            (error) => {
+                cleanup();
+                reject(error);
+            }
+        );
+    });
+};
@@ -0,0 +1,33 @@
+/**
+ * Headers set by the client for authentication, which custom headers may not override
+ */
+export const PROTECTED_HEADERS: readonly string[] = [
+    'x-signature', 'x-signature-version', 'x-signature-algorithm', 'x-timestamp', 'x-nonce', 'x-api-key', 'x-csrf-token-hosby'
+];
+
+/**
+ * Finds the first protected header in a header map
+ * @param headers Custom headers, from the client config or a single call
+ * @returns The name of the first protected header, or undefined if there is none
+ */
+export const findProtectedHeader = (headers?: Readonly<Record<string, string>>): string | undefined =>
+    Object.keys(headers ?? {}).find(name => PROTECTED_HEADERS.includes(name.toLowerCase()));
+
+/**
+ * Merges headers into a target map, matching existing names case-insensitively
+ * @param target Headers to merge into, modified in place
+ * @param source Headers to merge, overriding existing ones with the same name
+ * @returns The target headers
+ */
+export const mergeHeaders = (
+    target: Record<string, string>,
+    source?: Readonly<Record<string, string>>
+): Record<string, string> => {
+    Object.entries(source ?? {}).forEach(([name, value]) => {
+        Object.keys(target)
+            .filter(existing => existing !== name && existing.toLowerCase() === name.toLowerCase())
+            .forEach(existing => delete target[existing]);
+        target[name] = value;
+    });
+    return target;
+};
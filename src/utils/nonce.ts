@@ -0,0 +1,98 @@
+import CryptoJS from "crypto-js";
+
+/**
+ * Generates a cryptographically random request nonce
+ * @returns 32 hex characters (128 bits)
+ */
+export const generateNonce = (): string => CryptoJS.lib.WordArray.random(16).toString(CryptoJS.enc.Hex);
+
+/**
+ * Nonce registry options
+ */
+export interface NonceRegistryConfig {
+    /**
+     * Time in milliseconds a request timestamp is accepted for, before and after the current time.
+     * Nonces are remembered for as long as their request could be replayed. Defaults to 300000 (5 minutes)
+     */
+    window?: number;
+}
+
+/**
+ * Rejects replayed requests by remembering the nonces seen within the timestamp window.
+ * Meant for local mock servers and proxies verifying `x-nonce` and `x-timestamp` headers.
+ * @example
+ * ```typescript
+ * const nonces = new NonceRegistry({ window: 60000 });
+ *
+ * const transport = createTestTransport(({ headers }) => {
+ *   if (!nonces.check(headers['x-nonce'], headers['x-timestamp'])) {
+ *     return { status: 401, body: { success: false, status: 401, message: 'Replayed request' } };
+ *   }
+ *   return { body: { success: true, status: 200, message: 'OK', data: [] } };
+ * });
+ * ```
+ */
+export class NonceRegistry {
+    private readonly window: number;
+    /** Expiry time of each nonce, in milliseconds since the epoch */
+    private readonly seen = new Map<string, number>();
+
+    /**
+     * Creates a new NonceRegistry instance
+     * @param config - Nonce registry options
+     * @throws {Error} When the window is invalid
+     */
+    constructor(config: NonceRegistryConfig = {}) {
+        const { window = 300000 } = config;
+        if (typeof window !== 'number' || !Number.isFinite(window) || window <= 0) {
+            throw new Error('Nonce window must be a positive number of milliseconds');
+        }
+        this.window = window;
+    }
+
+    /**
+     * Number of nonces currently remembered
+     */
+    public get size(): number {
+        this.prune(Date.now());
+        return this.seen.size;
+    }
+
+    /**
+     * Checks that a nonce was not used before, and remembers it
+     * @param nonce - The request nonce
+     * @param timestamp - The request timestamp, in milliseconds since the epoch. Defaults to now
+     * @returns true for a fresh request, false for a missing nonce, a timestamp outside the window or a replay
+     */
+    public check(nonce: string | undefined, timestamp: number | string = Date.now()): boolean {
+        const now = Date.now();
+        const time = Number(timestamp);
+        this.prune(now);
+
+        if (!nonce || !Number.isFinite(time) || Math.abs(now - time) > this.window || this.seen.has(nonce)) {
+            return false;
+        }
+        this.seen.set(nonce, time + this.window);
+        return true;
+    }
+
+    /**
+     * Forgets every nonce
+     */
+    public clear(): void {
+        this.seen.clear();
+    }
+
+    /**
+     * Forgets the nonces whose request timestamp left the window
+     * @param now Current time, in milliseconds since the epoch
+     * @private
+     */
+    private prune(now: number): void {
+        this.seen.forEach((expiresAt, nonce) => {
+            if (expiresAt < now) {
+                this.seen.delete(nonce);
+            }
+        });
+    }
+}
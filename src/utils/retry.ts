@@ -0,0 +1,141 @@
+import { HosbyAbortError, HosbyCertificateError, HosbyCircuitOpenError, HosbyError, HosbyErrorOptions, HosbyNetworkError, HosbyTimeoutError } from "../errors";
+
+/**
+ * HTTP status codes that are considered transient and safe to retry
+ */
+export const RETRYABLE_STATUSES: readonly number[] = [408, 429, 500, 502, 503, 504];
+
+/**
+ * HTTP methods that may be retried without an idempotency key
+ */
+export const IDEMPOTENT_METHODS: readonly string[] = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Methods whose requests are only idempotent without filters: replaying a filtered PUT or DELETE
+ * replaces or deletes whichever documents match at that time, which may not be those of the first attempt
+ */
+export const FILTERED_WRITE_METHODS: readonly string[] = ['PUT', 'DELETE'];
+
+/**
+ * Bulk write operations, only retried with an idempotency key whatever their method and filters
+ */
+export const BULK_WRITE_OPERATIONS: readonly string[] = ['bulkUpdate', 'bulkDelete'];
+
+/**
+ * Checks whether a request may be retried without an idempotency key
+ * @param method HTTP method of the request
+ * @param path Path of the request, ending with the operation
+ * @param filtered Whether the request selects its documents with filters or a query
+ * @returns true for idempotent methods, except for filtered PUT and DELETE requests and bulk writes
+ */
+export const isIdempotentRequest = (method: string, path: string, filtered: boolean): boolean => {
+    const upperMethod = method.toUpperCase();
+    return IDEMPOTENT_METHODS.includes(upperMethod) &&
+        !(filtered && FILTERED_WRITE_METHODS.includes(upperMethod)) &&
+        !BULK_WRITE_OPERATIONS.includes(path.split('/').pop() ?? '');
+};
+
+/**
+ * Low-level socket error codes raised by Node.js when a connection fails
+ */
+const NETWORK_ERROR_CODES: readonly string[] = [
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ECONNABORTED',
+    'ETIMEDOUT',
+    'EPIPE',
+    'EAI_AGAIN',
+    'ENOTFOUND',
+    'UND_ERR_SOCKET',
+    'UND_ERR_CONNECT_TIMEOUT'
+];
+
+/**
+ * Checks whether an error was raised by the network layer rather than by the server
+ * @param error The error thrown by `fetch`
+ * @returns true for connection failures, false otherwise
+ */
+export const isNetworkError = (error: unknown): boolean => {
+    if (error instanceof TypeError) {
+        return true;
+    }
+    const code = (error as { code?: unknown; cause?: { code?: unknown } } | undefined)?.code
+        ?? (error as { cause?: { code?: unknown } } | undefined)?.cause?.code;
+    return typeof code === 'string' && NETWORK_ERROR_CODES.includes(code);
+};
+
+/**
+ * Checks whether a failed attempt may be retried
+ * @param error The error thrown by the attempt
+ * @returns true for network errors, timeouts and retryable HTTP statuses,
+ * false for aborts, open circuits and rejected certificates
+ */
+export const isRetryableError = (error: unknown): boolean => {
+    if (error instanceof HosbyAbortError || error instanceof HosbyCircuitOpenError || error instanceof HosbyCertificateError) {
+        return false;
+    }
+    if (error instanceof HosbyTimeoutError || error instanceof HosbyNetworkError) {
+        return true;
+    }
+    if (error instanceof HosbyError) {
+        return RETRYABLE_STATUSES.includes(error.status);
+    }
+    return isNetworkError(error);
+};
+
+/**
+ * Computes the exponential backoff delay for an attempt using full jitter
+ * @param attempt Zero-based index of the retry
+ * @param baseDelay Base delay in milliseconds
+ * @param maxDelay Upper bound for the delay in milliseconds
+ * @returns Delay in milliseconds, between 0 and min(maxDelay, baseDelay * 2^attempt)
+ */
+export const computeBackoff = (attempt: number, baseDelay: number, maxDelay: number): number => {
+    const ceiling = Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+    return Math.floor(Math.random() * ceiling);
+};
+
+/**
+ * Parses a `Retry-After` header value
+ * @param value Header value, either delay-seconds or an HTTP date
+ * @param now Current time in milliseconds
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | undefined => {
+    if (!value) {
+        return undefined;
+    }
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return Number(trimmed) * 1000;
+    }
+    const date = Date.parse(trimmed);
+    if (Number.isNaN(date)) {
+        return undefined;
+    }
+    return Math.max(0, date - now);
+};
+
+/**
+ * Waits for the given delay, rejecting early if the signal is aborted
+ * @param ms Delay in milliseconds
+ * @param signal Optional signal used to cancel the wait
+ * @param details Request details attached to the abort error
+ * @throws HosbyAbortError when the signal is aborted
+ */
+export const sleep = (ms: number, signal?: AbortSignal, details?: HosbyErrorOptions): Promise<void> => {
+    if (signal?.aborted) {
+        return Promise.reject(new HosbyAbortError(signal.reason, undefined, details));
+    }
+    return new Promise<void>((resolve, reject) => {
+        const onAbort = (): void => {
+            clearTimeout(timer);
+            reject(new HosbyAbortError(signal?.reason, undefined, details));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
@@ -0,0 +1,157 @@
+import CryptoJS from "crypto-js";
+
+/**
+ * Request signing scheme:
+ * - 'v1': signs `${apiKey}:${timestamp}`, or `${apiKey}:${timestamp}:${nonce}` with a nonce
+ * - 'v2': signs the canonical request built by {@link buildCanonicalRequest}
+ */
+export type SignatureVersion = 'v1' | 'v2';
+
+/**
+ * Supported signing schemes
+ */
+export const SIGNATURE_VERSIONS: readonly SignatureVersion[] = ['v1', 'v2'];
+
+/**
+ * Query option headers covered by the v2 signature, in canonical order
+ */
+export const SIGNED_HEADERS: readonly string[] = ['x-limit', 'x-query'];
+
+/**
+ * Request parts covered by a signature
+ */
+export interface SigningRequest {
+    /** HTTP method */
+    readonly method: string;
+    /** Fully qualified request URL */
+    readonly url: string;
+    /** Serialized request body, undefined when the request has none */
+    readonly body?: string;
+    /** Request headers, the signed option headers are read from them */
+    readonly headers: Readonly<Record<string, string>>;
+    /** API key sent in the `x-api-key` header */
+    readonly apiKey: string;
+    /** Timestamp sent in the `x-timestamp` header */
+    readonly timestamp: string;
+    /** Nonce sent in the `x-nonce` header, if any */
+    readonly nonce?: string;
+}
+
+/**
+ * Percent-encodes a string as specified by RFC 3986
+ * @param value The decoded string
+ * @returns The encoded string
+ */
+const encodeRfc3986 = (value: string): string =>
+    encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Decodes a percent-encoded string, leaving malformed sequences untouched
+ * @param value The encoded string
+ * @param plusAsSpace Whether `+` encodes a space, as in form-encoded query strings
+ * @returns The decoded string
+ */
+const decode = (value: string, plusAsSpace = false): string => {
+    const input = plusAsSpace ? value.replace(/\+/g, ' ') : value;
+    try {
+        return decodeURIComponent(input);
+    } catch {
+        return input;
+    }
+};
+
+/**
+ * Hashes a request body
+ * @param body Serialized request body, undefined or empty for requests without body
+ * @returns Hex-encoded SHA-256 hash of the body
+ */
+export const hashBody = (body = ''): string => CryptoJS.SHA256(body).toString(CryptoJS.enc.Hex);
+
+/**
+ * Normalizes a URL path: removes empty and dot segments and encodes every segment uniformly
+ * @param pathname Path of the request URL
+ * @returns The canonical path, always starting with `/` and keeping a trailing `/`
+ */
+export const canonicalPath = (pathname: string): string => {
+    const segments = pathname.split('/').reduce<string[]>((acc, segment) => {
+        if (segment === '..') {
+            acc.pop();
+        } else if (segment && segment !== '.') {
+            acc.push(encodeRfc3986(decode(segment)));
+        }
+        return acc;
+    }, []);
+    const trailingSlash = segments.length > 0 && pathname.endsWith('/') ? '/' : '';
+    return `/${segments.join('/')}${trailingSlash}`;
+};
+
+/**
+ * Normalizes a query string: encodes parameters uniformly and sorts them by name, then value
+ * @param search Query string of the request URL, with or without the leading `?`
+ * @returns The canonical query string
+ */
+export const canonicalQuery = (search: string): string =>
+    search.replace(/^\?/, '')
+        .split('&')
+        .filter(Boolean)
+        .map(pair => {
+            const index = pair.indexOf('=');
+            const name = index === -1 ? pair : pair.slice(0, index);
+            const value = index === -1 ? '' : pair.slice(index + 1);
+            return [encodeRfc3986(decode(name, true)), encodeRfc3986(decode(value, true))];
+        })
+        .sort(([nameA, valueA], [nameB, valueB]) =>
+            nameA < nameB ? -1 : nameA > nameB ? 1 : valueA < valueB ? -1 : valueA > valueB ? 1 : 0
+        )
+        .map(([name, value]) => `${name}=${value}`)
+        .join('&');
+
+/**
+ * Builds the canonical string signed by the v2 scheme.
+ * Lines are separated by `\n`:
+ * `HOSBY-V2`, the method, the canonical path, the canonical query, the API key, the timestamp,
+ * the nonce (empty without nonce), one `name:value` line per signed option header, and the SHA-256 hash of the body.
+ * @param request The request parts to sign
+ * @returns The canonical request
+ * @example
+ * ```text
+ * HOSBY-V2
+ * PATCH
+ * /myproject/users/updateOne/
+ * id=1
+ * keyId_projectId_userId
+ * 1700000000000
+ * 9f86d081884c7d659a2feaa0c55ad015
+ * x-limit:
+ * x-query:{"age":{"$gt":18}}
+ * 2c26b46b68ffc68ff99b453c1d30413413422d706483bfa0f98a5e886266e7ae
+ * ```
+ */
+export const buildCanonicalRequest = (request: SigningRequest): string => {
+    const url = new URL(request.url);
+    const headers = Object.fromEntries(
+        Object.entries(request.headers).map(([name, value]) => [name.toLowerCase(), value])
+    );
+    return [
+        'HOSBY-V2',
+        request.method.toUpperCase(),
+        canonicalPath(url.pathname),
+        canonicalQuery(url.search),
+        request.apiKey,
+        request.timestamp,
+        request.nonce ?? '',
+        ...SIGNED_HEADERS.map(name => `${name}:${(headers[name] ?? '').trim()}`),
+        hashBody(request.body)
+    ].join('\n');
+};
+
+/**
+ * Builds the string to sign for a signing scheme
+ * @param version The signing scheme
+ * @param request The request parts to sign
+ * @returns The string to sign
+ */
+export const buildSigningPayload = (version: SignatureVersion, request: SigningRequest): string =>
+    version !== 'v1'
+        ? buildCanonicalRequest(request)
+        : [request.apiKey, request.timestamp, ...(request.nonce ? [request.nonce] : [])].join(':');
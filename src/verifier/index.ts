@@ -0,0 +1,68 @@
+import CryptoJS from "crypto-js";
+import JSEncrypt from "jsencrypt";
+import { formatPEM } from "../utils/formatPem";
+import { hashBody } from "../utils/signing";
+
+/**
+ * Header carrying the base64 signature of a response
+ */
+export const RESPONSE_SIGNATURE_HEADER = 'x-response-signature';
+
+/**
+ * Header carrying the time in milliseconds at which the server signed a response
+ */
+export const RESPONSE_TIMESTAMP_HEADER = 'x-response-timestamp';
+
+/**
+ * Verifies the signatures of server responses.
+ * Implementations may verify synchronously or asynchronously.
+ * @example
+ * ```typescript
+ * const verifier: ResponseVerifier = {
+ *   verify: (data, signature) => crypto.verify(null, Buffer.from(data), serverPublicKey, Buffer.from(signature, 'base64'))
+ * };
+ * ```
+ */
+export interface ResponseVerifier {
+    /**
+     * Verifies a signature
+     * @param data The UTF-8 payload built by {@link buildResponsePayload}
+     * @param signature The base64 signature of the response
+     * @returns true when the signature matches the payload
+     */
+    verify(data: string, signature: string): boolean | Promise<boolean>;
+}
+
+/**
+ * Builds the payload signed by the server for a response:
+ * the status, the timestamp and the hex SHA-256 hash of the raw body, separated by line feeds
+ * @param status HTTP status code of the response
+ * @param timestamp Value of the `x-response-timestamp` header
+ * @param body Raw response body
+ * @returns The payload to verify
+ */
+export const buildResponsePayload = (status: number, timestamp: string, body = ''): string =>
+    [String(status), timestamp, hashBody(body)].join('\n');
+
+/**
+ * Creates a verifier checking RSA-SHA256 signatures with the server public key, using JSEncrypt
+ * @param publicKey Server public key, as PEM, base64 DER or a `pk_` string
+ * @returns The response verifier
+ * @throws {Error} When the public key is missing
+ * @example
+ * ```typescript
+ * const verifier = createResponseVerifier(process.env.HOSBY_SERVER_PUBLIC_KEY);
+ * ```
+ */
+export const createResponseVerifier = (publicKey: string): ResponseVerifier => {
+    if (!publicKey || typeof publicKey !== 'string') {
+        throw new Error('A public key is required to verify response signatures');
+    }
+    const verifier = new JSEncrypt();
+    verifier.setPublicKey(formatPEM(publicKey, 'PUBLIC KEY'));
+    const hashFunction = (input: string): string => CryptoJS.SHA256(input).toString(CryptoJS.enc.Hex);
+
+    return {
+        verify: (data: string, signature: string): boolean => verifier.verify(data, signature, hashFunction)
+    };
+};